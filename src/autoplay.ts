@@ -0,0 +1,125 @@
+// Continuous generation loop with stop conditions: generation limit, fixed point,
+// short cycles and a per-run spend budget.
+
+export type AutoplayStopReason =
+  | "paused"
+  | "limit"
+  | "fixedPoint"
+  | "cycle"
+  | "budget"
+  | "refused";
+
+export interface AutoplayOptions {
+  delayMs: number; // pause between generations
+  maxGenerations: number; // 0 = until stopped
+  budget: number; // USD for this run, 0 = unlimited
+  maxPeriod: number; // longest cycle looked for
+}
+
+export interface AutoplayHooks {
+  step: () => Promise<boolean>; // run one generation; false if it could not start
+  stateKey: () => string; // identity of the current grid
+  spent: () => number; // cumulative USD so far
+  onProgress?: (generations: number) => void;
+}
+
+export interface AutoplayResult {
+  reason: AutoplayStopReason;
+  generations: number;
+  period?: number; // 1 = fixed point
+  cost: number; // USD spent during the run
+}
+
+// Remembers recent states; reports the period when the newest repeats an earlier one.
+export class CycleDetector {
+  private recent: string[] = [];
+  private maxPeriod: number;
+
+  constructor(maxPeriod: number) {
+    this.maxPeriod = Math.max(1, maxPeriod);
+  }
+
+  // Returns the cycle period (1 = fixed point) or 0 when no repeat was found
+  push(key: string): number {
+    const idx = this.recent.lastIndexOf(key);
+    const period = idx === -1 ? 0 : this.recent.length - idx;
+    this.recent.push(key);
+    if (this.recent.length > this.maxPeriod) this.recent.shift();
+    return period;
+  }
+}
+
+export class Autoplay {
+  private active = false;
+  private wake: (() => void) | null = null;
+
+  get running() {
+    return this.active;
+  }
+
+  pause() {
+    this.active = false;
+    this.wake?.(); // cut the inter-generation delay short
+  }
+
+  async run(
+    opts: AutoplayOptions,
+    hooks: AutoplayHooks
+  ): Promise<AutoplayResult> {
+    if (this.active) throw new Error("Autoplay already running");
+    this.active = true;
+    // A throwing hook ends the run too (and rejects)
+    try {
+      return await this.loop(opts, hooks);
+    } finally {
+      this.active = false;
+    }
+  }
+
+  private async loop(
+    opts: AutoplayOptions,
+    hooks: AutoplayHooks
+  ): Promise<AutoplayResult> {
+    const startCost = hooks.spent();
+    const cycles = new CycleDetector(opts.maxPeriod);
+    cycles.push(hooks.stateKey());
+    let generations = 0;
+    const finish = (reason: AutoplayStopReason, period?: number) => ({
+      reason,
+      generations,
+      period,
+      cost: hooks.spent() - startCost,
+    });
+
+    while (this.active) {
+      // A step refused after pause() was a cancelled generation
+      if (!(await hooks.step()))
+        return finish(this.active ? "refused" : "paused");
+      generations++;
+      hooks.onProgress?.(generations);
+      const period = cycles.push(hooks.stateKey());
+      if (period === 1) return finish("fixedPoint", 1);
+      if (period > 1) return finish("cycle", period);
+      if (opts.budget > 0 && hooks.spent() - startCost >= opts.budget)
+        return finish("budget");
+      if (opts.maxGenerations > 0 && generations >= opts.maxGenerations)
+        return finish("limit");
+      if (!this.active) break;
+      if (opts.delayMs > 0) await this.sleep(opts.delayMs);
+    }
+    return finish("paused");
+  }
+
+  private sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wake = done;
+    }).finally(() => {
+      this.wake = null;
+    });
+  }
+}
@@ -0,0 +1,55 @@
+// Boundary conditions: how neighbor coordinates beyond the grid edge are resolved.
+
+export type BoundaryMode = "torus" | "fixed" | "reflect" | "klein";
+
+export interface BoundaryConfig {
+  mode: BoundaryMode;
+  edgeValue: string; // text every off-grid neighbor reads in "fixed" mode
+}
+
+export const DEFAULT_BOUNDARY: BoundaryConfig = {
+  mode: "torus",
+  edgeValue: "WALL",
+};
+
+// Appended to off-grid neighbor values in the prompt's neighbor list
+export const OFF_GRID_MARK = " (off-grid)";
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+// Mirror an index back into [0, n) duplicating the edge cell (-1 → 0, n → n-1)
+function reflect(i: number, n: number): number {
+  const m = mod(i, 2 * n);
+  return m < n ? m : 2 * n - 1 - m;
+}
+
+export function isOffGrid(x: number, y: number, cols: number, rows: number) {
+  return x < 0 || y < 0 || x >= cols || y >= rows;
+}
+
+// Map a possibly off-grid coordinate onto the grid; null means "use edgeValue".
+export function resolveCoord(
+  x: number,
+  y: number,
+  cols: number,
+  rows: number,
+  mode: BoundaryMode
+): { x: number; y: number } | null {
+  switch (mode) {
+    case "fixed":
+      return isOffGrid(x, y, cols, rows) ? null : { x, y };
+    case "reflect":
+      return { x: reflect(x, cols), y: reflect(y, rows) };
+    case "klein": {
+      // Wrap left/right normally; each trip across top/bottom flips x
+      const flips = Math.floor(y / rows);
+      const wx = mod(x, cols);
+      return {
+        x: flips % 2 === 0 ? wx : cols - 1 - wx,
+        y: mod(y, rows),
+      };
+    }
+    default:
+      return { x: mod(x, cols), y: mod(y, rows) };
+  }
+}
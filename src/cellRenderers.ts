@@ -0,0 +1,432 @@
+import p5 from "p5";
+import { LaidOutText, layoutCellText, layoutParagraphs } from "./textLayout";
+
+// Cell value renderers. Each value is drawn by the first renderer whose match()
+// accepts it, plain text being the fallback; registerCellRenderer() adds more
+// without touching the engine's draw loop (which only calls drawCellValue).
+
+// Channels 0-255 (alpha optional)
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+// --- Themes ---
+export interface CanvasTheme {
+  name: string;
+  label: string;
+  margin: string; // canvas around the grid
+  cell: string; // empty cell
+  text: string;
+  grid: string;
+  loading: string; // overlay on cells awaiting the model
+}
+
+export const THEMES: CanvasTheme[] = [
+  {
+    name: "light",
+    label: "Light",
+    margin: "#ececec",
+    cell: "#ffffff",
+    text: "#000000",
+    grid: "#787878",
+    loading: "rgba(0, 0, 0, 0.24)",
+  },
+  {
+    // Matches the sidebar (--bg, --panel, --text, --border)
+    name: "dark",
+    label: "Dark",
+    margin: "#0e1116",
+    cell: "#1b222c",
+    text: "#e6ebf1",
+    grid: "#3d4b5c",
+    loading: "rgba(255, 255, 255, 0.18)",
+  },
+];
+
+export function themeByName(name: string | null | undefined): CanvasTheme {
+  return THEMES.find((t) => t.name === name) ?? THEMES[0];
+}
+
+// --- Colors ---
+// Hash hex colors like #RGB, #RGBA, #RRGGBB, #RRGGBBAA
+export function parseHexColor(raw: string | undefined): RGBA | null {
+  if (!raw) return null;
+  const s = raw.trim();
+  if (!/^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(s))
+    return null;
+  const hex = s.slice(1);
+  // #RGB / #RGBA: each nibble duplicated
+  const full = hex.length <= 4 ? Array.from(hex, (c) => c + c).join("") : hex;
+  const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16);
+  const color: RGBA = { r: channel(0), g: channel(1), b: channel(2) };
+  if (full.length === 8) color.a = channel(3);
+  return color;
+}
+
+let probe: CanvasRenderingContext2D | null | undefined;
+
+// Named colors, rgb() and hsl() as parsed by the browser (null without a DOM)
+function parseCssColor(value: string): RGBA | null {
+  if (probe === undefined)
+    probe =
+      typeof document === "undefined"
+        ? null
+        : document.createElement("canvas").getContext("2d");
+  if (!probe) return null;
+  // Invalid colors leave fillStyle unchanged: test against two sentinels
+  const normalized = ["#000001", "#000002"].map((sentinel) => {
+    probe!.fillStyle = sentinel;
+    probe!.fillStyle = value;
+    return String(probe!.fillStyle);
+  });
+  if (normalized[0] !== normalized[1]) return null;
+  const css = normalized[0];
+  if (css.startsWith("#")) return parseHexColor(css);
+  const m = /^rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)$/.exec(css);
+  if (!m) return null;
+  const color: RGBA = { r: +m[1], g: +m[2], b: +m[3] };
+  if (m[4] !== undefined) color.a = Math.round(parseFloat(m[4]) * 255);
+  return color;
+}
+
+const FUNCTIONAL_COLOR = /^(?:rgb|hsl)a?\([^)]*\)$/i;
+const NAMED_COLOR = /^[a-z]{3,20}$/i;
+const colorCache = new Map<string, RGBA | null>();
+
+// Hex, rgb()/hsl() or a CSS color name; null for anything else
+export function parseColor(raw: string): RGBA | null {
+  const value = raw.trim();
+  if (value.startsWith("#")) return parseHexColor(value);
+  if (!FUNCTIONAL_COLOR.test(value) && !NAMED_COLOR.test(value)) return null;
+  const hit = colorCache.get(value);
+  if (hit !== undefined) return hit;
+  if (colorCache.size > 2000) colorCache.clear();
+  const color = parseCssColor(value);
+  colorCache.set(value, color);
+  return color;
+}
+
+// Relative brightness 0..1 (picks a readable text color)
+export function luminance(c: RGBA): number {
+  return (0.299 * c.r + 0.587 * c.g + 0.114 * c.b) / 255;
+}
+
+// --- Registry ---
+export interface CellDrawContext {
+  p: p5;
+  x: number; // cell rect in world coordinates
+  y: number;
+  size: number;
+  theme: CanvasTheme;
+  background: RGBA | null; // fill already painted under the value
+  repaint: () => void; // async content (images) became ready
+}
+
+export interface CellRenderer<T = unknown> {
+  name: string;
+  // Parsed form of the value, or null when this renderer doesn't apply
+  match(value: string): T | null;
+  draw(ctx: CellDrawContext, matched: T): void;
+}
+
+function fillCell(ctx: CellDrawContext, color: RGBA) {
+  const { p } = ctx;
+  p.push();
+  p.noStroke();
+  if (color.a !== undefined) p.fill(color.r, color.g, color.b, color.a);
+  else p.fill(color.r, color.g, color.b);
+  p.rect(ctx.x, ctx.y, ctx.size, ctx.size);
+  p.pop();
+  // Translucent fills keep the theme's text color
+  if ((color.a ?? 255) > 127) ctx.background = color;
+}
+
+function textColor(ctx: CellDrawContext): string {
+  const bg = ctx.background;
+  if (!bg) return ctx.theme.text;
+  return luminance(bg) < 0.5 ? "#ffffff" : "#000000";
+}
+
+// Centered lines of a layout; "**" toggles bold when `markup` is set
+function drawLines(
+  ctx: CellDrawContext,
+  layout: LaidOutText,
+  align: "center" | "left" = "center",
+  markup = false
+) {
+  const { p, x, y, size } = ctx;
+  p.push();
+  p.noStroke();
+  p.fill(textColor(ctx));
+  p.textSize(layout.fontSize);
+  p.textAlign(p.LEFT, p.BASELINE);
+  let baseline = y + (size - layout.totalHeight) / 2 + layout.lineHeight * 0.8;
+  let bold = false;
+  for (const line of layout.lines) {
+    const segments = markup ? line.split("**") : [line];
+    const styled = segments.map((text, i) => {
+      if (i > 0) bold = !bold;
+      p.textStyle(bold ? p.BOLD : p.NORMAL);
+      return { text, bold, width: p.textWidth(text) };
+    });
+    const width = styled.reduce((w, s) => w + s.width, 0);
+    let cursor = align === "center" ? x + (size - width) / 2 : x + size * 0.05;
+    for (const s of styled) {
+      p.textStyle(s.bold ? p.BOLD : p.NORMAL);
+      p.text(s.text, cursor, baseline);
+      cursor += s.width;
+    }
+    baseline += layout.lineHeight;
+  }
+  p.pop();
+}
+
+// --- Built-in renderers ---
+interface ImageEntry {
+  img: HTMLImageElement;
+  state: "loading" | "ready" | "failed";
+  settled: Promise<void>; // resolves once loaded or failed
+}
+// Model answers can hold any number of distinct images: keep the most recently
+// drawn ones (evicted images are simply loaded again)
+const IMAGE_CACHE_LIMIT = 500;
+const images = new Map<string, ImageEntry>();
+
+// Starts loading `src` unless already known
+function loadImage(src: string): ImageEntry {
+  const known = images.get(src);
+  if (known) {
+    images.delete(src);
+    images.set(src, known);
+    return known;
+  }
+  if (images.size >= IMAGE_CACHE_LIMIT)
+    images.delete(images.keys().next().value as string);
+  const img = new Image();
+  let settle = () => {};
+  const entry: ImageEntry = {
+    img,
+    state: "loading",
+    settled: new Promise((resolve) => (settle = resolve)),
+  };
+  img.onload = () => {
+    entry.state = "ready";
+    settle();
+  };
+  img.onerror = () => {
+    entry.state = "failed";
+    settle();
+  };
+  img.src = src;
+  images.set(src, entry);
+  return entry;
+}
+
+// data:image/... URLs and inline <svg> markup (never fetched from the network)
+const imageRenderer: CellRenderer<string> = {
+  name: "image",
+  match(value) {
+    const v = value.trim();
+    if (/^data:image\/[\w.+-]+(;[\w=-]+)*(;base64)?,/i.test(v)) return v;
+    if (/^<svg[\s>][\s\S]*<\/svg>$/i.test(v))
+      return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(v)}`;
+    return null;
+  },
+  draw(ctx, src) {
+    const fresh = !images.has(src);
+    const entry = loadImage(src);
+    if (fresh) void entry.settled.then(ctx.repaint);
+    if (entry.state !== "ready") {
+      const label = entry.state === "failed" ? "⚠ image" : "…";
+      drawLines(ctx, layoutCellText(ctx.p, label, ctx.size));
+      return;
+    }
+    const { img } = entry;
+    const box = ctx.size * 0.9;
+    const k = box / Math.max(img.naturalWidth || 1, img.naturalHeight || 1);
+    const w = (img.naturalWidth || box) * k;
+    const h = (img.naturalHeight || box) * k;
+    (ctx.p.drawingContext as CanvasRenderingContext2D).drawImage(
+      img,
+      ctx.x + (ctx.size - w) / 2,
+      ctx.y + (ctx.size - h) / 2,
+      w,
+      h
+    );
+  },
+};
+
+// "#ff0000 fire": hex / rgb() / hsl() color followed by a caption
+const colorLabelRenderer: CellRenderer<{ color: RGBA; label: string }> = {
+  name: "color-label",
+  match(value) {
+    const m = /^(#[0-9a-f]{3,8}|(?:rgb|hsl)a?\([^)]*\))\s+(\S[\s\S]*)$/i.exec(
+      value.trim()
+    );
+    const color = m && parseColor(m[1]);
+    return color ? { color, label: m![2] } : null;
+  },
+  draw(ctx, { color, label }) {
+    fillCell(ctx, color);
+    drawLines(
+      ctx,
+      layoutCellText(ctx.p, label, ctx.size, {
+        maxFactor: 0.4,
+        minFactor: 0.08,
+      })
+    );
+  },
+};
+
+// Solid colors; a named color keeps its name as a small caption (words that
+// happen to be color names stay readable)
+const colorRenderer: CellRenderer<{ color: RGBA; label: string | null }> = {
+  name: "color",
+  match(value) {
+    const color = parseColor(value);
+    if (!color) return null;
+    return {
+      color,
+      label: NAMED_COLOR.test(value.trim()) ? value.trim() : null,
+    };
+  },
+  draw(ctx, { color, label }) {
+    fillCell(ctx, color);
+    if (label)
+      drawLines(
+        ctx,
+        layoutCellText(ctx.p, label, ctx.size, {
+          maxFactor: 0.2,
+          minFactor: 0.06,
+        })
+      );
+  },
+};
+
+// Only emoji (and joiners/modifiers): drawn large
+const EMOJI_ONLY =
+  /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|‍|️|⃣|\s)+$/u;
+const HAS_PICTOGRAPH = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+const emojiRenderer: CellRenderer<string> = {
+  name: "emoji",
+  match(value) {
+    const v = value.trim();
+    return v.length <= 32 && EMOJI_ONLY.test(v) && HAS_PICTOGRAPH.test(v)
+      ? v
+      : null;
+  },
+  draw(ctx, emoji) {
+    drawLines(
+      ctx,
+      layoutCellText(ctx.p, emoji, ctx.size, {
+        maxFactor: 0.75,
+        minFactor: 0.1,
+      })
+    );
+  },
+};
+
+// Simple markdown: **bold**, "-"/"*" bullets, numbered items, # headings (bold)
+const MARKDOWN_HINT =
+  /\*\*[^*\n]+\*\*|^\s*(?:[-*+]|\d+\.)\s+\S|^#{1,6}\s+\S|\n/m;
+const markdownRenderer: CellRenderer<string[]> = {
+  name: "markdown",
+  match(value) {
+    if (!MARKDOWN_HINT.test(value)) return null;
+    const paragraphs = value
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        let text = line
+          .replace(/^#{1,6}\s+(.*)$/, "**$1**")
+          .replace(/^[-*+]\s+/, "• ");
+        // Unbalanced markers would leak bold into the next paragraph
+        if ((text.match(/\*\*/g) ?? []).length % 2)
+          text = text.replace(/\*\*(?![\s\S]*\*\*)/, "");
+        return text;
+      });
+    return paragraphs.length ? paragraphs : null;
+  },
+  draw(ctx, paragraphs) {
+    const layout = layoutParagraphs(ctx.p, paragraphs, ctx.size, {
+      maxFactor: 0.3,
+      minFactor: 0.06,
+    });
+    const list = paragraphs.some((t) => /^(•|\d+\.)\s/.test(t));
+    drawLines(ctx, layout, list ? "left" : "center", true);
+  },
+};
+
+const textRenderer: CellRenderer<string> = {
+  name: "text",
+  match: (value) => value,
+  draw(ctx, text) {
+    drawLines(
+      ctx,
+      layoutCellText(ctx.p, text, ctx.size, {
+        maxFactor: 0.55,
+        minFactor: 0.08,
+      })
+    );
+  },
+};
+
+// A renderer only ever draws what its own match() returned, so the registry
+// can forget T
+function erased<T>(renderer: CellRenderer<T>): CellRenderer<unknown> {
+  return renderer as CellRenderer<unknown>;
+}
+
+const renderers: CellRenderer<unknown>[] = [
+  erased(imageRenderer),
+  erased(colorLabelRenderer),
+  erased(colorRenderer),
+  erased(emojiRenderer),
+  erased(markdownRenderer),
+];
+
+// Later registrations take precedence over earlier ones and the built-ins
+export function registerCellRenderer<T>(renderer: CellRenderer<T>) {
+  const existing = renderers.findIndex((r) => r.name === renderer.name);
+  if (existing !== -1) renderers.splice(existing, 1);
+  renderers.unshift(erased(renderer));
+}
+
+// Draws a value with the first matching renderer; returns its name
+export function drawCellValue(ctx: CellDrawContext, value: string): string {
+  if (!value.trim()) return "empty";
+  for (const renderer of renderers) {
+    const matched = renderer.match(value);
+    if (matched === null) continue;
+    renderer.draw(ctx, matched);
+    return renderer.name;
+  }
+  textRenderer.draw(ctx, value);
+  return textRenderer.name;
+}
+
+// Loads the images among `values` (offscreen frames cannot repaint later)
+export async function preloadCellImages(values: Iterable<string>) {
+  const pending: Promise<void>[] = [];
+  for (const value of values) {
+    const src = imageRenderer.match(value);
+    if (src !== null) pending.push(loadImage(src).settled);
+  }
+  await Promise.all(pending);
+}
+
+// Color a value is shown with (bare color or color-with-label), if any
+export function valueColor(value: string): RGBA | null {
+  const direct = parseColor(value);
+  if (direct) return direct;
+  return colorLabelRenderer.match(value)?.color ?? null;
+}
+
+// Fill to show a background color (cell schema backgrounds)
+export function drawCellBackground(ctx: CellDrawContext, color: RGBA) {
+  fillCell(ctx, color);
+}
@@ -0,0 +1,216 @@
+import { z } from "zod";
+
+// User-declared cell fields. With a schema, a cell's text holds a JSON object of
+// its fields (canonical: schema order, see formatCellFields); without one, cells
+// are plain text as before. The field list also yields the zod schema the model's
+// answer is validated with and the instructions appended to every prompt.
+
+export type FieldType = "string" | "number" | "color" | "enum";
+
+export interface CellField {
+  name: string;
+  type: FieldType;
+  options?: string[]; // enum values
+}
+
+export interface CellSchemaConfig {
+  fields: CellField[]; // empty = plain text cells
+  background?: string; // color field painted as the cell background
+  caption?: string; // field drawn as the cell's text
+}
+
+export type CellFields = Record<string, string | number>;
+
+export const EMPTY_CELL_SCHEMA: CellSchemaConfig = { fields: [] };
+
+const HEX_COLOR = /^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+const FIELD_NAME = /^[A-Za-z_]\w*$/;
+
+// Stored form (experiment documents)
+export const CellSchemaConfigSchema = z.object({
+  fields: z.array(
+    z.object({
+      name: z.string().regex(FIELD_NAME),
+      type: z.enum(["string", "number", "color", "enum"]),
+      options: z.array(z.string()).optional(),
+    })
+  ),
+  background: z.string().optional(),
+  caption: z.string().optional(),
+});
+
+export function hasFields(config: CellSchemaConfig): boolean {
+  return config.fields.length > 0;
+}
+
+// --- Spec text ("name: type" per line, enum(a, b) for enums) ---
+export function parseSchemaSpec(spec: string): CellField[] {
+  const fields: CellField[] = [];
+  spec.split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const m = /^([^:]+):\s*(\w+)\s*(?:\((.*)\))?$/.exec(line);
+    if (!m) throw new Error(`Line ${i + 1}: expected "name: type"`);
+    const name = m[1].trim();
+    const type = m[2].toLowerCase();
+    if (!FIELD_NAME.test(name))
+      throw new Error(`Line ${i + 1}: invalid field name "${name}"`);
+    if (fields.some((f) => f.name === name))
+      throw new Error(`Line ${i + 1}: duplicate field "${name}"`);
+    if (type === "enum") {
+      const options = (m[3] ?? "")
+        .split(",")
+        .map((o) => o.trim())
+        .filter(Boolean);
+      if (!options.length)
+        throw new Error(`Line ${i + 1}: enum needs values, e.g. enum(a, b)`);
+      fields.push({ name, type, options: [...new Set(options)] });
+    } else if (type === "string" || type === "number" || type === "color") {
+      fields.push({ name, type });
+    } else throw new Error(`Line ${i + 1}: unknown type "${m[2]}"`);
+  });
+  return fields;
+}
+
+export function formatSchemaSpec(fields: CellField[]): string {
+  return fields
+    .map((f) =>
+      f.type === "enum"
+        ? `${f.name}: enum(${(f.options ?? []).join(", ")})`
+        : `${f.name}: ${f.type}`
+    )
+    .join("\n");
+}
+
+// --- Validation ---
+function fieldSchema(field: CellField, forModel: boolean): z.ZodTypeAny {
+  switch (field.type) {
+    case "number":
+      return z.number();
+    case "color":
+      // Structured outputs get a plain string; the pattern is checked on receipt
+      return forModel ? z.string() : z.string().trim().regex(HEX_COLOR);
+    case "enum":
+      return z.enum((field.options ?? [""]) as [string, ...string[]]);
+    default:
+      return z.string();
+  }
+}
+
+// Object of all fields; `forModel` = the variant sent as the response format
+export function fieldsSchema(
+  config: CellSchemaConfig,
+  forModel = false
+): z.ZodTypeAny {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const f of config.fields) shape[f.name] = fieldSchema(f, forModel);
+  const object = z.object(shape);
+  if (forModel) return object;
+  // Models occasionally answer with the object JSON-encoded as a string
+  return z.union([
+    object,
+    z
+      .string()
+      .transform((s, ctx) => {
+        try {
+          return JSON.parse(s);
+        } catch {
+          ctx.addIssue({ code: "custom", message: "expected a JSON object" });
+          return z.NEVER;
+        }
+      })
+      .pipe(object),
+  ]);
+}
+
+// Canonical cell text for validated fields (schema order)
+export function formatCellFields(
+  config: CellSchemaConfig,
+  fields: CellFields
+): string {
+  const ordered: CellFields = {};
+  for (const f of config.fields) ordered[f.name] = fields[f.name];
+  return JSON.stringify(ordered);
+}
+
+// Fields of a cell's text; null for plain text that isn't a JSON object.
+// Lenient: fields missing or of the wrong type are left out.
+export function parseCellFields(
+  config: CellSchemaConfig,
+  text: string
+): CellFields | null {
+  if (!text.trim().startsWith("{")) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const out: CellFields = {};
+  for (const f of config.fields) {
+    const parsed = fieldSchema(f, false).safeParse(
+      (raw as Record<string, unknown>)[f.name]
+    );
+    if (parsed.success) out[f.name] = parsed.data;
+  }
+  return out;
+}
+
+// --- Prompt & rendering ---
+function describeField(f: CellField): string {
+  switch (f.type) {
+    case "number":
+      return "number";
+    case "color":
+      return 'color (hex string like "#RRGGBB")';
+    case "enum":
+      return `one of ${(f.options ?? []).map((o) => `"${o}"`).join(", ")}`;
+    default:
+      return "string";
+  }
+}
+
+// Appended to cell & batch prompts when the schema declares fields
+export function schemaInstructions(config: CellSchemaConfig): string {
+  return [
+    "Cell values are JSON objects with these fields:",
+    ...config.fields.map((f) => `- ${f.name}: ${describeField(f)}`),
+    "Instead of a string, every resultValue must be a JSON object with exactly these fields.",
+  ].join("\n");
+}
+
+// Field shown as background / caption: the configured one, else the first fit
+export function visualFields(config: CellSchemaConfig) {
+  const byName = (name?: string) =>
+    config.fields.find((f) => f.name === name)?.name;
+  return {
+    background:
+      byName(config.background) ??
+      config.fields.find((f) => f.type === "color")?.name,
+    caption:
+      byName(config.caption) ??
+      config.fields.find((f) => f.type !== "color")?.name,
+  };
+}
+
+export interface CellVisual {
+  background: string | null; // hex color
+  caption: string;
+}
+
+// How a cell is drawn; null when the text isn't a fields object (drawn as text)
+export function cellVisual(
+  config: CellSchemaConfig,
+  text: string
+): CellVisual | null {
+  const fields = parseCellFields(config, text);
+  if (!fields) return null;
+  const { background, caption } = visualFields(config);
+  const bg = background !== undefined ? fields[background] : undefined;
+  const label = caption !== undefined ? fields[caption] : undefined;
+  return {
+    background: typeof bg === "string" ? bg : null,
+    caption: label === undefined ? "" : String(label),
+  };
+}
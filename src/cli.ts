@@ -0,0 +1,291 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { Simulation } from "./simulation";
+import { parseExperiment } from "./experiment";
+import { createProvider, providerReady, ProviderSettings } from "./providers";
+import { ProviderKind } from "./llmProvider";
+import { GenerationUsage, UsageTracker } from "./usage";
+import { Cell } from "./kernel";
+import { MAX_BATCH_SIZE } from "./constants";
+
+// Headless runner: `the-one-prompt run <experiment.json>` loads an exported
+// experiment, runs N generations against a provider and writes every
+// generation's grid (JSON and/or CSV) plus a usage summary to a directory.
+// Built with `npm run build:cli`, which `prepare` runs on install and link
+// (prompt templates are bundled like the web app's).
+
+const USAGE = `Usage: the-one-prompt run <experiment.json> [options]
+
+Options:
+  -n, --generations <n>    generations to run (default 10)
+  -o, --out <dir>          output directory (default runs/<name>-<timestamp>)
+  -f, --format <fmt>       json, csv or both (default both)
+  -p, --provider <kind>    openai, compatible or mock (default openai)
+  -m, --model <name>       model (default: the provider's default)
+      --base-url <url>     endpoint for the compatible provider
+      --prompt <rule>      rule to run instead of the experiment's
+      --batch-size <n>     cells per model request, 1-64 (default 1)
+      --spend-limit <usd>  stop once the run has cost this much
+  -q, --quiet              no per-generation progress
+  -h, --help
+
+The OpenAI key is read from OPENAI_API_KEY.`;
+
+const PROVIDER_KINDS: ProviderKind[] = ["openai", "compatible", "mock"];
+const FORMATS = ["json", "csv", "both"] as const;
+
+type StopReason = "completed" | "spendLimit" | "interrupted";
+
+// Bad invocation: reported with the usage text
+class UsageError extends Error {}
+
+interface RunOptions {
+  file: string;
+  generations: number;
+  out: string;
+  format: (typeof FORMATS)[number];
+  provider: ProviderSettings;
+  prompt?: string;
+  batchSize: number;
+  spendLimit: number;
+  quiet: boolean;
+}
+
+function parseNumber(name: string, raw: string | undefined, fallback: number) {
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!isFinite(n) || n < 0) throw new UsageError(`--${name}: not a number`);
+  return n;
+}
+
+// Whole number from 1 to `max`
+function parseCount(
+  name: string,
+  raw: string | undefined,
+  fallback: number,
+  max = Infinity
+) {
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1 || n > max)
+    throw new UsageError(
+      `--${name}: expected a whole number from 1${
+        max === Infinity ? "" : ` to ${max}`
+      }`
+    );
+  return n;
+}
+
+function parseOptions(argv: string[]): RunOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      generations: { type: "string", short: "n" },
+      out: { type: "string", short: "o" },
+      format: { type: "string", short: "f" },
+      provider: { type: "string", short: "p" },
+      model: { type: "string", short: "m" },
+      "base-url": { type: "string" },
+      prompt: { type: "string" },
+      "batch-size": { type: "string" },
+      "spend-limit": { type: "string" },
+      quiet: { type: "boolean", short: "q" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) return null;
+  const [command, file, ...rest] = positionals;
+  if (command !== "run")
+    throw new UsageError(`Unknown command: ${command ?? "(none)"}`);
+  if (!file) throw new UsageError("Missing experiment file");
+  if (rest.length) throw new UsageError(`Unexpected argument: ${rest[0]}`);
+
+  const kind = (values.provider ?? "openai") as ProviderKind;
+  if (!PROVIDER_KINDS.includes(kind))
+    throw new UsageError(`--provider: expected ${PROVIDER_KINDS.join(", ")}`);
+  const format = (values.format ?? "both") as RunOptions["format"];
+  if (!FORMATS.includes(format))
+    throw new UsageError(`--format: expected ${FORMATS.join(", ")}`);
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const name = path.basename(file).replace(/\.json$/i, "");
+  return {
+    file,
+    generations: parseCount("generations", values.generations, 10),
+    out: values.out ?? path.join("runs", `${name}-${stamp}`),
+    format,
+    provider: {
+      kind,
+      model: values.model ?? "",
+      baseURL: values["base-url"] ?? "",
+      apiKey: process.env.OPENAI_API_KEY?.trim() ?? "",
+    },
+    prompt: values.prompt,
+    batchSize: parseCount(
+      "batch-size",
+      values["batch-size"],
+      1,
+      MAX_BATCH_SIZE
+    ),
+    spendLimit: parseNumber("spend-limit", values["spend-limit"], 0),
+    quiet: !!values.quiet,
+  };
+}
+
+// --- Output ---
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function gridCsv(grid: Cell[][]) {
+  return (
+    grid.map((row) => row.map((c) => csvField(c.text)).join(",")).join("\n") +
+    "\n"
+  );
+}
+
+function gridJson(
+  sim: Simulation,
+  usage: GenerationUsage | null
+): Record<string, unknown> {
+  const errors: { x: number; y: number; error: string }[] = [];
+  sim.grid.forEach((row, y) =>
+    row.forEach((c, x) => {
+      if (c.status === "error") errors.push({ x, y, error: c.error ?? "" });
+    })
+  );
+  return {
+    generation: sim.generation,
+    cols: sim.cols,
+    rows: sim.rows,
+    grid: sim.grid.map((row) => row.map((c) => c.text)),
+    errors,
+    usage,
+  };
+}
+
+async function writeGeneration(
+  opts: RunOptions,
+  sim: Simulation,
+  usage: GenerationUsage | null
+) {
+  const base = path.join(
+    opts.out,
+    `gen-${String(sim.generation).padStart(4, "0")}`
+  );
+  if (opts.format !== "csv")
+    await writeFile(
+      `${base}.json`,
+      JSON.stringify(gridJson(sim, usage), null, 2) + "\n"
+    );
+  if (opts.format !== "json") await writeFile(`${base}.csv`, gridCsv(sim.grid));
+}
+
+// --- Run ---
+async function run(opts: RunOptions): Promise<StopReason> {
+  const exp = parseExperiment(JSON.parse(await readFile(opts.file, "utf8")));
+  const prompt = opts.prompt ?? exp.prompt;
+  if (!providerReady(opts.provider))
+    throw new Error("OPENAI_API_KEY is not set (or use --provider mock)");
+
+  const usage = new UsageTracker(false);
+  usage.setLimit(opts.spendLimit);
+  const sim = new Simulation(exp.cols, exp.rows, usage);
+  sim.loadExperiment(exp);
+  const provider = createProvider(opts.provider);
+  sim.setProvider(provider);
+  sim.setBatchSize(opts.batchSize);
+
+  let interrupted = false;
+  const onInterrupt = () => {
+    interrupted = true;
+    sim.cancel();
+  };
+  process.once("SIGINT", onInterrupt);
+
+  await mkdir(opts.out, { recursive: true });
+  await writeGeneration(opts, sim, null);
+  const log = (msg: string) => opts.quiet || console.error(msg);
+  log(
+    `${opts.file}: ${exp.cols}x${exp.rows}, ${provider.kind} / ${provider.model}`
+  );
+
+  let reason: StopReason = "completed";
+  try {
+    for (let i = 1; i <= opts.generations; i++) {
+      const started = Date.now();
+      const completed = await sim.nextGeneration(prompt);
+      if (!completed) {
+        reason = interrupted ? "interrupted" : "spendLimit";
+        break;
+      }
+      const gen = usage
+        .getGenerations()
+        .find((g) => g.generation === sim.generation);
+      await writeGeneration(opts, sim, gen ?? null);
+      const failed = sim.failedCount();
+      log(
+        `gen ${sim.generation} (${i}/${opts.generations}) ` +
+          `$${(gen?.cost ?? 0).toFixed(4)}` +
+          (failed ? `, ${failed} failed` : "") +
+          ` in ${Date.now() - started}ms`
+      );
+    }
+  } finally {
+    process.removeListener("SIGINT", onInterrupt);
+  }
+
+  await writeFile(
+    path.join(opts.out, "experiment.json"),
+    JSON.stringify(sim.toExperiment(prompt), null, 2) + "\n"
+  );
+  const summary = {
+    experiment: opts.file,
+    provider: provider.kind,
+    model: provider.model,
+    stopped: reason,
+    generation: sim.generation,
+    totals: usage.getTotals(),
+    generations: usage.getGenerations(),
+    batches: sim.getBatchStats(),
+    cache: sim.getCache().getStats(),
+  };
+  await writeFile(
+    path.join(opts.out, "usage.json"),
+    JSON.stringify(summary, null, 2) + "\n"
+  );
+  const totals = usage.getTotals();
+  console.log(
+    `${reason}: generation ${sim.generation}, ${totals.requests} requests, ` +
+      `$${totals.cost.toFixed(4)}${totals.unpriced ? " (+ unpriced)" : ""} → ${
+        opts.out
+      }`
+  );
+  return reason;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const opts = parseOptions(argv);
+    if (!opts) {
+      console.log(USAGE);
+      return 0;
+    }
+    const reason = await run(opts);
+    return reason === "completed" ? 0 : reason === "interrupted" ? 130 : 2;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`error: ${message}`);
+    if (
+      e instanceof UsageError ||
+      (e as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")
+    )
+      console.error(`\n${USAGE}`);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -1,9 +1,21 @@
 // Core constants & default configuration values
 export const CELL_SIZE = 200; // px – cell square dimension
 export const DEFAULT_GRID_SIZE = 5; // initial width/height
+export const MAX_GRID_SIZE = 64; // per side
 export const MAX_CONCURRENT = 3; // simultaneous OpenAI calls
 export const MIN_INTERVAL_MS = 150; // ms spacing between call starts
+export const MAX_ATTEMPTS = 4; // per cell request, including the first try
+export const RETRY_BASE_DELAY_MS = 500; // first backoff step (doubles each retry)
+export const RETRY_MAX_DELAY_MS = 8000; // backoff cap
+export const MAX_RETRY_AFTER_MS = 60_000; // longer server-requested waits fail the cell
 export const DEFAULT_PROMPT = "";
+export const DEFAULT_BATCH_SIZE = 1; // cells per model request (1 = unbatched)
+export const MAX_BATCH_SIZE = 64;
+export const AUTOPLAY_DELAY_MS = 500; // default pause between autoplay generations
+export const MAX_CYCLE_PERIOD = 8; // longest cycle autoplay detects
+export const DEFAULT_HISTORY_DEPTH = 100; // grid states kept for undo / timeline
+export const DEFAULT_MODEL = "gpt-4o-mini"; // used when no model is selected
+export const DEFAULT_COMPATIBLE_BASE_URL = "http://localhost:11434/v1"; // Ollama default
 
 // $20 worth of credits for you! Use them before someone else does.
 export function getObfuscatedString(): string {
@@ -1,286 +1,339 @@
 import p5 from "p5";
-import { kernel, Cell } from "./kernel";
-import { OpenAIHelper } from "./openaiHelper";
-import { layoutCellText } from "./textLayout";
-import { RateLimiter } from "./rateLimiter";
+import { Simulation } from "./simulation";
+import { Cell } from "./kernel";
+import { createProvider, loadProviderSettings } from "./providers";
 import {
-  CELL_SIZE,
-  MAX_CONCURRENT,
-  MIN_INTERVAL_MS,
-  DEFAULT_PROMPT,
-} from "./constants";
+  CanvasTheme,
+  CellDrawContext,
+  THEMES,
+  drawCellBackground,
+  drawCellValue,
+  parseHexColor,
+  preloadCellImages,
+  themeByName,
+  valueColor,
+} from "./cellRenderers";
+import { Viewport } from "./viewport";
+import { MinimapCell } from "./minimap";
+import { CellSchemaConfig, cellVisual, hasFields } from "./cellSchema";
+import { CELL_SIZE } from "./constants";
 
-// Helper to parse hash hex colors like #RGB, #RGBA, #RRGGBB, #RRGGBBAA
-interface ParsedHexColor {
-  r: number;
-  g: number;
-  b: number;
-  a?: number;
-}
-function parseHexColor(raw: string | undefined): ParsedHexColor | null {
-  if (!raw) return null;
-  const s = raw.trim();
-  if (!/^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(s))
-    return null;
-  const hex = s.slice(1);
-  let r: number, g: number, b: number, a: number | undefined;
-  if (hex.length === 3 || hex.length === 4) {
-    // #RGB or #RGBA (each nibble duplicated)
-    const rn = parseInt(hex[0] + hex[0], 16);
-    const gn = parseInt(hex[1] + hex[1], 16);
-    const bn = parseInt(hex[2] + hex[2], 16);
-    r = rn;
-    g = gn;
-    b = bn;
-    if (hex.length === 4) a = parseInt(hex[3] + hex[3], 16);
-  } else if (hex.length === 6 || hex.length === 8) {
-    r = parseInt(hex.slice(0, 2), 16);
-    g = parseInt(hex.slice(2, 4), 16);
-    b = parseInt(hex.slice(4, 6), 16);
-    if (hex.length === 8) a = parseInt(hex.slice(6, 8), 16);
-  } else return null;
-  return { r, g, b, a };
-}
-
-// Encapsulates grid state, OpenAI interaction, rate limiting & drawing logic
-export class Engine {
-  cols: number;
-  rows: number;
-  grid: Cell[][] = [];
-  private helper: OpenAIHelper | null = null;
+// The simulation on a p5 canvas: viewport, themes, incremental drawing, the
+// token display and provider settings from browser storage
+export class Engine extends Simulation {
   private tokenDiv: HTMLElement | null = null;
-  private generationInProgress = false;
-  private loadingCells = new Set<string>();
-  private limiter = new RateLimiter(MAX_CONCURRENT, MIN_INTERVAL_MS);
+  private cacheDiv: HTMLElement | null = null;
+  private batchDiv: HTMLElement | null = null;
+  private view = new Viewport();
+  private drawListener: (() => void) | null = null;
+  private frame = 0; // pending requestAnimationFrame id
+  private painted = new Map<string, string>(); // cell key → what the canvas shows
+  private paintedView = ""; // view & canvas size of the last full paint
+  private theme: CanvasTheme = THEMES[0];
 
   constructor(cols: number, rows: number) {
-    this.cols = cols;
-    this.rows = rows;
-    this.grid = this.createGrid();
+    super(cols, rows);
+    this.view.setGrid(cols, rows);
+  }
+
+  protected gridResized() {
+    this.view.setGrid(this.cols, this.rows);
+  }
+  protected usageChanged() {
+    this.updateTokenDisplay();
   }
 
   // --- Initialization & configuration ---
   initHelperFromStorage() {
-    const stored = localStorage.getItem("openai_api_key") || "";
-    if (stored) (window as any).__OPENAI_KEY__ = stored;
-    this.helper = new OpenAIHelper(stored || undefined);
+    const settings = loadProviderSettings();
+    if (settings.apiKey) (window as any).__OPENAI_KEY__ = settings.apiKey;
+    this.setProvider(createProvider(settings));
   }
   setApiKey(key: string) {
-    this.helper = new OpenAIHelper(key || undefined);
+    this.setProvider(
+      createProvider({ ...loadProviderSettings(), apiKey: key })
+    );
   }
   setTokenDiv(div: HTMLElement) {
     this.tokenDiv = div;
   }
-
-  // --- Grid management ---
-  private createGrid(): Cell[][] {
-    return Array.from({ length: this.rows }, () =>
-      Array.from({ length: this.cols }, () => ({ text: "" }))
-    );
+  setCacheDiv(div: HTMLElement) {
+    this.cacheDiv = div;
   }
-  resize(newSize: number, p?: p5) {
-    const oldCols = this.cols;
-    const oldRows = this.rows;
-    const oldGrid = this.grid;
-    if (newSize === oldCols && newSize === oldRows) return;
-    const newGrid: Cell[][] = Array.from({ length: newSize }, () =>
-      Array.from({ length: newSize }, () => ({ text: "" }))
-    );
-    const copyCols = Math.min(oldCols, newSize);
-    const copyRows = Math.min(oldRows, newSize);
-    for (let y = 0; y < copyRows; y++) {
-      for (let x = 0; x < copyCols; x++) {
-        newGrid[y][x].text = oldGrid[y][x].text;
-      }
-    }
-    this.cols = newSize;
-    this.rows = newSize;
-    this.grid = newGrid;
-    if (p) p.resizeCanvas(this.cols * CELL_SIZE, this.rows * CELL_SIZE);
+  setBatchDiv(div: HTMLElement) {
+    this.batchDiv = div;
   }
-
-  // --- Utility ---
-  private cellKey(x: number, y: number) {
-    return `${x},${y}`;
+  getViewport() {
+    return this.view;
   }
-  private snapshot(): Cell[][] {
-    return this.grid.map((row) => row.map((c) => ({ ...c })));
+  // Called after every canvas redraw (minimap)
+  setDrawListener(listener: () => void) {
+    this.drawListener = listener;
   }
-
-  // --- Token display ---
-  updateTokenDisplay() {
-    if (!this.helper || !this.tokenDiv) return;
-    const cum = this.helper.getCumulativeUsage();
-    this.tokenDiv.textContent = `$${cum.cost.toFixed(4)}`;
+  // Changing the fields keeps cell texts; values not matching them draw as text
+  setCellSchema(config: CellSchemaConfig) {
+    super.setCellSchema(config);
+    this.paintedView = ""; // visuals depend on the schema: repaint everything
+  }
+  setTheme(name: string) {
+    this.theme = themeByName(name);
+    this.paintedView = "";
+  }
+  getTheme(): CanvasTheme {
+    return this.theme;
   }
 
-  // --- Single cell update ---
-  async updateSingleCell(
-    cx: number,
-    cy: number,
-    prompt: string = DEFAULT_PROMPT,
-    p?: p5
-  ) {
-    if (this.generationInProgress) return;
-    if (!this.helper) return;
-    if (cy < 0 || cy >= this.rows || cx < 0 || cx >= this.cols) return;
-    const key = this.cellKey(cx, cy); // compute early
-    // Prevent starting another request for the same cell while one is in flight
-    if (this.loadingCells.has(key)) return;
-    const snapshot = this.snapshot();
-    const upY = (cy - 1 + this.rows) % this.rows;
-    const downY = (cy + 1) % this.rows;
-    const leftX = (cx - 1 + this.cols) % this.cols;
-    const rightX = (cx + 1) % this.cols;
-    await this.limiter.acquire();
-    this.loadingCells.add(key);
-    if (p) this.draw(p);
-    try {
-      const newText = await kernel(
-        this.helper,
-        prompt,
-        snapshot[upY][cx],
-        snapshot[downY][cx],
-        snapshot[cy][leftX],
-        snapshot[cy][rightX],
-        snapshot[cy][cx]
-      );
-      this.grid[cy][cx].text = newText;
-    } catch (e) {
-      console.error("Single cell kernel error", e);
-      const errMsg = e instanceof Error ? e.message : String(e);
-      this.grid[cy][cx].text = errMsg;
-    } finally {
-      this.loadingCells.delete(key);
-      if (p) this.draw(p);
-      this.updateTokenDisplay();
-      this.limiter.release();
-    }
+  // --- Minimap ---
+  minimapCell(cx: number, cy: number): MinimapCell {
+    const cell = this.grid[cy][cx];
+    if (cell.status === "error") return "error";
+    const visual = hasFields(this.cellSchema)
+      ? cellVisual(this.cellSchema, cell.text)
+      : null;
+    if (visual && !visual.background) return visual.caption ? "text" : "empty";
+    const color = visual
+      ? parseHexColor(visual.background!)
+      : valueColor(cell.text);
+    if (color)
+      return {
+        color: `rgba(${color.r},${color.g},${color.b},${
+          (color.a ?? 255) / 255
+        })`,
+      };
+    return cell.text.trim() ? "text" : "empty";
   }
 
-  // --- Generation step (all cells) ---
-  async nextGeneration(prompt: string, p?: p5) {
-    this.generationInProgress = true;
-    const snapshot = this.snapshot();
-    const tasks: Promise<void>[] = [];
-    // Collect all cell coordinates first
-    const coords: Array<{ x: number; y: number }> = [];
-    for (let y = 0; y < this.rows; y++) {
-      for (let x = 0; x < this.cols; x++) {
-        coords.push({ x, y });
-      }
-    }
-    // Fisher-Yates shuffle for random order each generation
-    for (let i = coords.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [coords[i], coords[j]] = [coords[j], coords[i]];
+  // --- Token display ---
+  // Lifetime cost (persisted) plus cache / batch savings; the usage panel re-renders
+  updateTokenDisplay() {
+    this.usageListener?.();
+    if (!this.tokenDiv) return;
+    const totals = this.getUsage().getTotals();
+    // Unpriced requests make the total a lower bound
+    this.tokenDiv.textContent = `$${totals.cost.toFixed(4)}${
+      totals.unpriced ? " + ?" : ""
+    }`;
+    this.tokenDiv.classList.toggle("unpriced", totals.unpriced > 0);
+    this.tokenDiv.title = totals.unpriced
+      ? `${totals.unpriced} requests used models without pricing`
+      : "";
+    if (this.cacheDiv) {
+      const { hits, misses } = this.getCache().getStats();
+      this.cacheDiv.textContent = `cache ${hits} hit / ${misses} miss`;
     }
-    // Launch tasks in randomized order
-    for (const { x, y } of coords) {
-      const task = (async (cx: number, cy: number) => {
-        await this.limiter.acquire();
-        const key = this.cellKey(cx, cy);
-        this.loadingCells.add(key);
-        if (p) this.draw(p);
-        try {
-          const upY = (cy - 1 + this.rows) % this.rows;
-          const downY = (cy + 1) % this.rows;
-          const leftX = (cx - 1 + this.cols) % this.cols;
-          const rightX = (cx + 1) % this.cols;
-          const newText = await kernel(
-            this.helper!,
-            prompt,
-            snapshot[upY][cx],
-            snapshot[downY][cx],
-            snapshot[cy][leftX],
-            snapshot[cy][rightX],
-            snapshot[cy][cx]
-          );
-          this.grid[cy][cx].text = newText;
-        } catch (e) {
-          console.error("Kernel error", e);
-          const errMsg = e instanceof Error ? e.message : String(e);
-          this.grid[cy][cx].text = errMsg;
-        } finally {
-          this.loadingCells.delete(key);
-          if (p) this.draw(p);
-          this.updateTokenDisplay();
-          this.limiter.release();
-        }
-      })(x, y);
-      tasks.push(task);
+    if (this.batchDiv) {
+      const b = this.getBatchStats();
+      const saved = b.estimatedSingleCost - b.cost;
+      this.batchDiv.textContent = b.requests
+        ? `batched ${b.cells} cells in ${b.requests} req · saved ${
+            b.cells - b.requests
+          } calls, ~$${Math.max(0, saved).toFixed(4)}`
+        : "";
     }
-    await Promise.all(tasks);
-    this.generationInProgress = false;
   }
 
   // --- Drawing ---
+  // draw() only schedules: any number of calls within a frame cost one paint.
   draw(p: p5) {
-    p.background(255);
-    p.fill(0);
-    // We'll draw cell contents first (without per-cell borders) then overlay a single grid so shared lines aren't doubled.
-    for (let y = 0; y < this.rows; y++) {
-      for (let x = 0; x < this.cols; x++) {
-        const cellX = x * CELL_SIZE;
-        const cellY = y * CELL_SIZE;
+    if (typeof requestAnimationFrame === "undefined") return this.render(p);
+    if (this.frame) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = 0;
+      this.render(p);
+    });
+  }
 
-        const content = this.grid[y][x].text;
-        const color = parseHexColor(content);
-        if (color) {
-          p.push();
-          p.noStroke();
-          if (color.a !== undefined) p.fill(color.r, color.g, color.b, color.a);
-          else p.fill(color.r, color.g, color.b);
-          p.rect(cellX, cellY, CELL_SIZE, CELL_SIZE);
-          p.pop();
-        } else {
-          // Only layout & draw text if not a color cell
-          const layout = layoutCellText(p, content, CELL_SIZE, {
-            maxFactor: 0.55,
-            minFactor: 0.08,
-          });
-          p.textSize(layout.fontSize);
-          p.fill(0);
-          const totalTextHeight = layout.totalHeight;
-          let startY =
-            cellY + (CELL_SIZE - totalTextHeight) / 2 + layout.lineHeight * 0.8;
-          for (const line of layout.lines) {
-            p.textAlign(p.CENTER, p.BASELINE);
-            p.text(line, cellX + CELL_SIZE / 2, startY);
-            startY += layout.lineHeight;
-          }
-        }
+  // Paint now. Cells whose text, status and loading state match what is already
+  // on the canvas are skipped; a moved view or resized canvas repaints everything.
+  render(p: p5) {
+    if (this.frame) {
+      cancelAnimationFrame(this.frame);
+      this.frame = 0;
+    }
+    const view = this.view;
+    const viewKey = [
+      view.scale,
+      view.x,
+      view.y,
+      p.width,
+      p.height,
+      this.cols,
+      this.rows,
+    ].join();
+    const full = viewKey !== this.paintedView;
+    if (full) {
+      this.painted.clear();
+      this.paintedView = viewKey;
+    }
+    const { x0, y0, x1, y1 } = view.visibleCells();
+    const w = this.cols * CELL_SIZE;
+    const h = this.rows * CELL_SIZE;
+    p.push();
+    const theme = this.theme;
+    if (full) p.background(theme.margin); // outside the grid (zoomed-out margins)
+    p.scale(view.scale);
+    p.translate(-view.x, -view.y);
+    if (full) {
+      p.noStroke();
+      p.fill(theme.cell);
+      p.rect(0, 0, w, h);
+    }
+    let changed = 0;
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const key = this.cellKey(x, y);
+        const cell = this.grid[y][x];
+        const signature = `${+this.loadingCells.has(key)}|${cell.status}|${
+          cell.text
+        }`;
+        if (this.painted.get(key) === signature) continue;
+        this.renderCell(p, x, y, !full);
+        this.painted.set(key, signature);
+        changed++;
+      }
+    }
 
-        // Loading overlay (on top of base color if any)
-        if (this.loadingCells.has(this.cellKey(x, y))) {
-          p.push();
-          p.noStroke();
-          p.fill(0, 0, 0, 60);
-          p.rect(cellX, cellY, CELL_SIZE, CELL_SIZE);
-          p.pop();
-        }
+    // Full paint: draw the grid once for crisper, more prominent lines
+    if (full) {
+      p.push();
+      p.noFill();
+      p.stroke(theme.grid);
+      p.strokeWeight(this.gridWeight());
+      // Outer rectangle
+      p.rect(0, 0, w, h);
+      // Internal vertical lines
+      for (let x = Math.max(1, x0); x <= Math.min(this.cols - 1, x1 + 1); x++) {
+        const xx = x * CELL_SIZE;
+        p.line(xx, 0, xx, h);
+      }
+      // Internal horizontal lines
+      for (let y = Math.max(1, y0); y <= Math.min(this.rows - 1, y1 + 1); y++) {
+        const yy = y * CELL_SIZE;
+        p.line(0, yy, w, yy);
       }
+      p.pop();
     }
+    p.pop();
+    if (full || changed) this.drawListener?.();
+  }
+
+  private gridWeight(scale = this.view.scale) {
+    return Math.max(1.5, 1 / scale); // at least 1 screen px
+  }
 
-    // Draw grid once for crisper, more prominent lines
+  // Whole grid at `cellPx` per cell from the canvas origin, without overlays
+  // (offscreen export frames; the caller sizes the canvas)
+  paintSnapshot(p: p5, grid: Cell[][], cellPx: number) {
+    const rows = grid.length;
+    const cols = grid[0]?.length ?? 0;
+    const scale = cellPx / CELL_SIZE;
     p.push();
+    p.scale(scale);
+    p.noStroke();
+    p.fill(this.theme.cell);
+    p.rect(0, 0, cols * CELL_SIZE, rows * CELL_SIZE);
+    for (let y = 0; y < rows; y++)
+      for (let x = 0; x < cols; x++)
+        this.renderContent(p, grid[y][x].text, x * CELL_SIZE, y * CELL_SIZE);
     p.noFill();
-    p.stroke(120); // darker than previous 200 for stronger contrast
-    p.strokeWeight(1.5); // slightly thicker
-    const w = this.cols * CELL_SIZE;
-    const h = this.rows * CELL_SIZE;
-    // Outer rectangle
-    p.rect(0, 0, w, h);
-    // Internal vertical lines
-    for (let x = 1; x < this.cols; x++) {
-      const xx = x * CELL_SIZE;
-      p.line(xx, 0, xx, h);
+    p.stroke(this.theme.grid);
+    p.strokeWeight(this.gridWeight(scale));
+    p.rect(0, 0, cols * CELL_SIZE, rows * CELL_SIZE);
+    for (let x = 1; x < cols; x++)
+      p.line(x * CELL_SIZE, 0, x * CELL_SIZE, rows * CELL_SIZE);
+    for (let y = 1; y < rows; y++)
+      p.line(0, y * CELL_SIZE, cols * CELL_SIZE, y * CELL_SIZE);
+    p.pop();
+  }
+
+  // Loads the images `grid` shows, so paintSnapshot() never draws placeholders
+  preloadImages(grid: Cell[][]): Promise<void> {
+    return preloadCellImages(
+      grid
+        .flat()
+        .map(({ text }) =>
+          hasFields(this.cellSchema)
+            ? cellVisual(this.cellSchema, text)?.caption ?? text
+            : text
+        )
+    );
+  }
+
+  // One cell in world coordinates; `repaint` clears it first and restores its
+  // share of the grid lines (a full paint draws those once at the end)
+  private renderCell(p: p5, x: number, y: number, repaint: boolean) {
+    const cellX = x * CELL_SIZE;
+    const cellY = y * CELL_SIZE;
+    const key = this.cellKey(x, y);
+    const theme = this.theme;
+    if (repaint) {
+      p.push();
+      p.noStroke();
+      p.fill(theme.cell);
+      p.rect(cellX, cellY, CELL_SIZE, CELL_SIZE);
+      p.pop();
     }
-    // Internal horizontal lines
-    for (let y = 1; y < this.rows; y++) {
-      const yy = y * CELL_SIZE;
-      p.line(0, yy, w, yy);
+
+    // Async content (images) ready: repaint just this cell
+    this.renderContent(p, this.grid[y][x].text, cellX, cellY, () => {
+      this.painted.delete(key);
+      this.draw(p);
+    });
+
+    // Loading overlay (on top of base color if any)
+    if (this.loadingCells.has(key)) {
+      p.push();
+      p.noStroke();
+      p.fill(theme.loading);
+      p.rect(cellX, cellY, CELL_SIZE, CELL_SIZE);
+      p.pop();
     }
-    p.pop();
+
+    // Failed update: red outline (message shown as the canvas tooltip)
+    if (this.grid[y][x].status === "error") {
+      p.push();
+      p.noFill();
+      p.stroke(255, 77, 97);
+      p.strokeWeight(4);
+      p.rect(cellX + 2, cellY + 2, CELL_SIZE - 4, CELL_SIZE - 4);
+      p.pop();
+    }
+
+    if (repaint) {
+      p.push();
+      p.noFill();
+      p.stroke(theme.grid);
+      p.strokeWeight(this.gridWeight());
+      p.rect(cellX, cellY, CELL_SIZE, CELL_SIZE);
+      p.pop();
+    }
+  }
+
+  // A cell's value through the renderer registry (with a cell schema: the
+  // mapped background field, then the caption field)
+  private renderContent(
+    p: p5,
+    content: string,
+    cellX: number,
+    cellY: number,
+    repaint: () => void = () => {}
+  ) {
+    const ctx: CellDrawContext = {
+      p,
+      x: cellX,
+      y: cellY,
+      size: CELL_SIZE,
+      theme: this.theme,
+      background: null,
+      repaint,
+    };
+    const visual = hasFields(this.cellSchema)
+      ? cellVisual(this.cellSchema, content)
+      : null;
+    if (visual) {
+      const color = parseHexColor(visual.background ?? "");
+      if (color) drawCellBackground(ctx, color);
+      drawCellValue(ctx, visual.caption);
+    } else drawCellValue(ctx, content);
   }
 }
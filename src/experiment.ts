@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { MAX_GRID_SIZE } from "./constants";
+import { CellSchemaConfigSchema } from "./cellSchema";
+
+// Experiment documents: everything needed to reproduce a session (grid, rule,
+// template, neighborhood, boundary, optional history). Validated with zod on load.
+
+export const EXPERIMENT_VERSION = 1;
+export const AUTOSAVE_KEY = "experiment_autosave";
+const PERMALINK_PREFIX = "#x=";
+
+const CellSchema = z.object({
+  text: z.string(),
+  status: z.enum(["ok", "error", "pending"]).optional(),
+  error: z.string().optional(),
+});
+const GridSchema = z.array(z.array(CellSchema));
+const DimensionSchema = z.number().int().min(1).max(MAX_GRID_SIZE);
+
+// Grids must match their stated size: restoring an entry adopts its cols/rows
+const matchesSize = (e: { grid: unknown[][]; cols: number; rows: number }) =>
+  e.grid.length === e.rows && e.grid.every((r) => r.length === e.cols);
+
+const HistoryEntrySchema = z
+  .object({
+    grid: GridSchema,
+    cols: DimensionSchema,
+    rows: DimensionSchema,
+    generation: z.number().int().min(0),
+    label: z.string(),
+    timestamp: z.number(),
+  })
+  .refine(matchesSize, { message: "grid does not match cols/rows" });
+
+export const ExperimentSchema = z
+  .object({
+    version: z.literal(EXPERIMENT_VERSION),
+    cols: DimensionSchema,
+    rows: DimensionSchema,
+    grid: GridSchema,
+    generation: z.number().int().min(0),
+    prompt: z.string(),
+    template: z.string(),
+    neighborhood: z.object({
+      kind: z.enum(["vonNeumann", "moore", "custom"]),
+      radius: z.number().int().min(1),
+      mask: z.array(z.object({ dx: z.number().int(), dy: z.number().int() })),
+    }),
+    boundary: z.object({
+      mode: z.enum(["torus", "fixed", "reflect", "klein"]),
+      edgeValue: z.string(),
+    }),
+    cellSchema: CellSchemaConfigSchema.optional(), // absent = plain text cells
+    history: z.array(HistoryEntrySchema).optional(),
+    historyPosition: z.number().int().min(0).optional(),
+  })
+  .refine(matchesSize, { message: "grid does not match cols/rows" })
+  .refine(
+    (e) => !e.history?.length || (e.historyPosition ?? 0) < e.history.length,
+    { message: "is past the end of history", path: ["historyPosition"] }
+  );
+
+export type Experiment = z.infer<typeof ExperimentSchema>;
+
+// Validate an unknown document; throws an Error with a readable message
+export function parseExperiment(raw: unknown): Experiment {
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (version !== EXPERIMENT_VERSION)
+    throw new Error(`Unsupported experiment version: ${String(version)}`);
+  const res = ExperimentSchema.safeParse(raw);
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    throw new Error(
+      `Invalid experiment: ${issue.path.join(".") || "(root)"} ${issue.message}`
+    );
+  }
+  return res.data;
+}
+
+// --- File export / import ---
+export function downloadExperiment(exp: Experiment, filename: string) {
+  const blob = new Blob([JSON.stringify(exp, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function readExperimentFile(file: File): Promise<Experiment> {
+  const text = await file.text();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(
+      "Experiment file is not valid JSON: " + (e as Error).message
+    );
+  }
+  return parseExperiment(raw);
+}
+
+// --- Autosave (localStorage) ---
+export function autosaveExperiment(exp: Experiment) {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(exp));
+  } catch {
+    // Quota exceeded – keep at least the current state
+    const { history, historyPosition, ...rest } = exp;
+    try {
+      localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(rest));
+    } catch (e) {
+      console.warn("Autosave failed", e);
+    }
+  }
+}
+
+export function loadAutosave(): Experiment | null {
+  const stored = localStorage.getItem(AUTOSAVE_KEY);
+  if (!stored) return null;
+  try {
+    return parseExperiment(JSON.parse(stored));
+  } catch (e) {
+    console.warn("Ignoring invalid autosave", e);
+    return null;
+  }
+}
+
+// --- Permalinks: deflate-raw + base64url in the URL hash ---
+// "1." prefix = compressed; "0." = plain fallback for browsers without CompressionStream.
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK)
+    bin += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function pipeBytes(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodePermalink(exp: Experiment): Promise<string> {
+  // Permalinks share the starting state only; history stays in files
+  const { history, historyPosition, ...rest } = exp;
+  const bytes = new TextEncoder().encode(JSON.stringify(rest));
+  const payload =
+    typeof CompressionStream !== "undefined"
+      ? "1." +
+        toBase64Url(
+          await pipeBytes(bytes, new CompressionStream("deflate-raw"))
+        )
+      : "0." + toBase64Url(bytes);
+  return `${location.origin}${location.pathname}${PERMALINK_PREFIX}${payload}`;
+}
+
+export function hasPermalink(hash: string) {
+  return hash.startsWith(PERMALINK_PREFIX);
+}
+
+export async function decodePermalink(hash: string): Promise<Experiment> {
+  const payload = hash.slice(PERMALINK_PREFIX.length);
+  const dot = payload.indexOf(".");
+  const mode = payload.slice(0, dot);
+  let bytes = fromBase64Url(payload.slice(dot + 1));
+  if (mode === "1") {
+    if (typeof DecompressionStream === "undefined")
+      throw new Error("This browser cannot decompress permalinks");
+    bytes = await pipeBytes(bytes, new DecompressionStream("deflate-raw"));
+  } else if (mode !== "0") throw new Error("Unrecognized permalink format");
+  return parseExperiment(JSON.parse(new TextDecoder().decode(bytes)));
+}
@@ -0,0 +1,227 @@
+import p5 from "p5";
+import { Engine } from "./engine";
+import { HistoryEntry } from "./history";
+import { GifEncoder } from "./gifEncoder";
+
+// Client-side media export: the current grid as a PNG, recorded generations as
+// a PNG sprite sheet, animated GIF or WebM video. Frames are painted offscreen
+// with the canvas's cell renderers and theme at a chosen cell size.
+
+export const MAX_IMAGE_SIDE = 8192; // px, PNG and sprite sheet
+export const MAX_FRAME_SIDE = 2048; // px, GIF and WebM frames
+
+export interface FrameOptions {
+  cellPx: number; // rendered size of one cell
+  overlay: boolean; // generation number in the top-left corner
+}
+
+export interface AnimationOptions extends FrameOptions {
+  frameMs: number; // display time per generation
+  onProgress?: (done: number, total: number) => void;
+}
+
+let sketch: Promise<p5> | null = null;
+
+// Hidden p5 instance for offscreen frames (p5.Graphics buffers lack the
+// constants the cell renderers use)
+function frameSketch(): Promise<p5> {
+  sketch ??= new Promise((resolve) => {
+    const host = document.createElement("div");
+    host.hidden = true;
+    document.body.appendChild(host);
+    new p5((s: p5) => {
+      s.setup = () => {
+        s.createCanvas(1, 1);
+        s.pixelDensity(1);
+        s.noLoop();
+        resolve(s);
+      };
+    }, host);
+  });
+  return sketch;
+}
+
+function canvasOf(s: p5): HTMLCanvasElement {
+  return (s.drawingContext as CanvasRenderingContext2D).canvas;
+}
+
+// Pixel size of frames for `entries` (the largest grid among them)
+export function frameSize(entries: HistoryEntry[], cellPx: number) {
+  return {
+    width: Math.max(1, ...entries.map((e) => e.cols)) * cellPx,
+    height: Math.max(1, ...entries.map((e) => e.rows)) * cellPx,
+  };
+}
+
+function checkSize(width: number, height: number, max: number) {
+  if (Math.max(width, height) > max)
+    throw new Error(
+      `${width}×${height}px exceeds the ${max}px limit; use a smaller cell size`
+    );
+}
+
+// Paints `entry` onto the hidden canvas at `width`×`height` (smaller grids sit
+// top-left on the theme's margin color)
+async function renderFrame(
+  engine: Engine,
+  entry: HistoryEntry,
+  width: number,
+  height: number,
+  opts: FrameOptions
+): Promise<HTMLCanvasElement> {
+  const s = await frameSketch();
+  await engine.preloadImages(entry.grid);
+  if (s.width !== width || s.height !== height) s.resizeCanvas(width, height);
+  s.background(engine.getTheme().margin);
+  engine.paintSnapshot(s, entry.grid, opts.cellPx);
+  if (opts.overlay) {
+    const label = `Gen ${entry.generation}`;
+    const size = Math.max(12, Math.round(Math.min(width, height) * 0.05));
+    s.push();
+    s.textSize(size);
+    s.textStyle(s.BOLD);
+    const pad = size * 0.4;
+    s.noStroke();
+    s.fill(0, 0, 0, 160);
+    s.rect(pad, pad, s.textWidth(label) + pad * 2, size + pad * 2, pad);
+    s.fill(255);
+    s.textAlign(s.LEFT, s.TOP);
+    s.text(label, pad * 2, pad * 2);
+    s.pop();
+  }
+  return canvasOf(s);
+}
+
+function toBlob(canvas: HTMLCanvasElement, type = "image/png"): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode image")),
+      type
+    )
+  );
+}
+
+// Let the page update progress between frames
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+export async function exportPng(
+  engine: Engine,
+  opts: FrameOptions
+): Promise<Blob> {
+  const entry = engine.currentFrame();
+  const { width, height } = frameSize([entry], opts.cellPx);
+  checkSize(width, height, MAX_IMAGE_SIDE);
+  return toBlob(await renderFrame(engine, entry, width, height, opts));
+}
+
+// Frames tiled left to right, top to bottom in a near-square sheet
+export async function exportSpriteSheet(
+  engine: Engine,
+  entries: HistoryEntry[],
+  opts: FrameOptions
+): Promise<Blob> {
+  const { width, height } = frameSize(entries, opts.cellPx);
+  const columns = Math.ceil(Math.sqrt(entries.length));
+  const sheetRows = Math.ceil(entries.length / columns);
+  checkSize(columns * width, sheetRows * height, MAX_IMAGE_SIDE);
+  const sheet = document.createElement("canvas");
+  sheet.width = columns * width;
+  sheet.height = sheetRows * height;
+  const ctx = sheet.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is unavailable");
+  for (const [i, entry] of entries.entries()) {
+    const frame = await renderFrame(engine, entry, width, height, opts);
+    ctx.drawImage(
+      frame,
+      (i % columns) * width,
+      Math.floor(i / columns) * height
+    );
+  }
+  return toBlob(sheet);
+}
+
+export async function exportGif(
+  engine: Engine,
+  entries: HistoryEntry[],
+  opts: AnimationOptions
+): Promise<Blob> {
+  const { width, height } = frameSize(entries, opts.cellPx);
+  checkSize(width, height, MAX_FRAME_SIDE);
+  const gif = new GifEncoder(width, height);
+  for (const [i, entry] of entries.entries()) {
+    const frame = await renderFrame(engine, entry, width, height, opts);
+    const ctx = frame.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is unavailable");
+    gif.addFrame(ctx.getImageData(0, 0, width, height), opts.frameMs);
+    opts.onProgress?.(i + 1, entries.length);
+    await nextTask();
+  }
+  return new Blob([gif.finish()], { type: "image/gif" });
+}
+
+const WEBM_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+export function canRecordWebm(): boolean {
+  return (
+    typeof MediaRecorder !== "undefined" &&
+    "captureStream" in HTMLCanvasElement.prototype &&
+    WEBM_TYPES.some((t) => MediaRecorder.isTypeSupported(t))
+  );
+}
+
+// Plays the frames in real time into a MediaRecorder (takes frames × frameMs)
+export async function exportWebm(
+  engine: Engine,
+  entries: HistoryEntry[],
+  opts: AnimationOptions
+): Promise<Blob> {
+  if (!canRecordWebm())
+    throw new Error("This browser cannot record WebM video");
+  const { width, height } = frameSize(entries, opts.cellPx);
+  checkSize(width, height, MAX_FRAME_SIDE);
+  const screen = document.createElement("canvas");
+  screen.width = width;
+  screen.height = height;
+  const ctx = screen.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is unavailable");
+  const show = async (entry: HistoryEntry) =>
+    ctx.drawImage(await renderFrame(engine, entry, width, height, opts), 0, 0);
+
+  const mimeType = WEBM_TYPES.find((t) => MediaRecorder.isTypeSupported(t))!;
+  const stream = screen.captureStream();
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (ev) => {
+    if (ev.data.size) chunks.push(ev.data);
+  };
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+  await show(entries[0]);
+  recorder.start();
+  try {
+    for (const [i, entry] of entries.entries()) {
+      if (i > 0) await show(entry);
+      opts.onProgress?.(i + 1, entries.length);
+      await new Promise((resolve) => setTimeout(resolve, opts.frameMs));
+    }
+    await show(entries[entries.length - 1]); // close the last frame's duration
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach((t) => t.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
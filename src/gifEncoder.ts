@@ -0,0 +1,240 @@
+// Minimal animated GIF (89a) encoder. Frames are added one at a time so long
+// recordings never hold more than one frame of pixels; each frame gets its own
+// palette: exact when it has at most 256 colors (flat cells), otherwise the 256
+// most common colors at 15-bit precision with every pixel mapped to the nearest.
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, alpha ignored
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buf = new Uint8Array(1 << 16);
+  private len = 0;
+
+  byte(b: number) {
+    if (this.len === this.buf.length) this.flush();
+    this.buf[this.len++] = b & 0xff;
+  }
+  word(w: number) {
+    this.byte(w);
+    this.byte(w >> 8);
+  }
+  bytes(list: ArrayLike<number>) {
+    for (let i = 0; i < list.length; i++) this.byte(list[i]);
+  }
+  text(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+  private flush() {
+    this.chunks.push(this.buf.slice(0, this.len));
+    this.len = 0;
+  }
+  result(): Uint8Array<ArrayBuffer> {
+    this.flush();
+    const out = new Uint8Array(this.chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const c of this.chunks) {
+      out.set(c, offset);
+      offset += c.length;
+    }
+    return out;
+  }
+}
+
+// --- Palette ---
+interface IndexedFrame {
+  palette: number[]; // 0xRRGGBB
+  indices: Uint8Array;
+}
+
+function indexFrame(image: RgbaImage): IndexedFrame {
+  const { data } = image;
+  const count = image.width * image.height;
+  const exact = new Map<number, number>();
+  const indices = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    const rgb = (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+    let idx = exact.get(rgb);
+    if (idx === undefined) {
+      if (exact.size === 256) return quantizeFrame(image);
+      idx = exact.size;
+      exact.set(rgb, idx);
+    }
+    indices[i] = idx;
+  }
+  return { palette: [...exact.keys()], indices };
+}
+
+const bin15 = (r: number, g: number, b: number) =>
+  ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+function quantizeFrame(image: RgbaImage): IndexedFrame {
+  const { data } = image;
+  const count = image.width * image.height;
+  const hits = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  for (let i = 0; i < count; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const bin = bin15(r, g, b);
+    hits[bin]++;
+    sums[bin * 3] += r;
+    sums[bin * 3 + 1] += g;
+    sums[bin * 3 + 2] += b;
+  }
+  const used: number[] = [];
+  for (let bin = 0; bin < hits.length; bin++) if (hits[bin]) used.push(bin);
+  used.sort((a, b) => hits[b] - hits[a]);
+  const colors = used
+    .slice(0, 256)
+    .map((bin) =>
+      [0, 1, 2].map((c) => Math.round(sums[bin * 3 + c] / hits[bin]))
+    );
+  // Nearest palette entry per used bin (bins absent from the frame are skipped)
+  const lookup = new Int16Array(1 << 15).fill(-1);
+  for (const bin of used) {
+    const r = sums[bin * 3] / hits[bin];
+    const g = sums[bin * 3 + 1] / hits[bin];
+    const b = sums[bin * 3 + 2] / hits[bin];
+    let best = 0;
+    let bestDist = Infinity;
+    colors.forEach(([pr, pg, pb], i) => {
+      const d = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+      }
+    });
+    lookup[bin] = best;
+  }
+  const indices = new Uint8Array(count);
+  for (let i = 0; i < count; i++)
+    indices[i] = lookup[bin15(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])];
+  return {
+    palette: colors.map(([r, g, b]) => (r << 16) | (g << 8) | b),
+    indices,
+  };
+}
+
+// --- LZW ---
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+  out.byte(minCodeSize);
+  const block: number[] = [];
+  let bits = 0;
+  let nbits = 0;
+  const emit = (code: number, size: number) => {
+    bits |= code << nbits;
+    nbits += size;
+    while (nbits >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      nbits -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  const dict = new Map<number, number>(); // (prefix << 8 | index) → code
+  emit(clear, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dict.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix, codeSize);
+    if (next === 4096) {
+      // Table full: start over
+      emit(clear, codeSize);
+      dict.clear();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    } else {
+      if (next >= 1 << codeSize) codeSize++;
+      dict.set(key, next++);
+    }
+    prefix = k;
+  }
+  emit(prefix, codeSize);
+  emit(end, codeSize);
+  if (nbits > 0) emit(0, 8 - nbits); // pad the last byte
+  if (block.length) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0); // block terminator
+}
+
+export class GifEncoder {
+  private out = new ByteWriter();
+  private frames = 0;
+  private width: number;
+  private height: number;
+
+  // `loop`: repeat forever (NETSCAPE2.0 extension)
+  constructor(width: number, height: number, loop = true) {
+    this.width = width;
+    this.height = height;
+    const out = this.out;
+    out.text("GIF89a");
+    out.word(width);
+    out.word(height);
+    out.bytes([0, 0, 0]); // no global color table
+    if (loop) {
+      out.bytes([0x21, 0xff, 11]);
+      out.text("NETSCAPE2.0");
+      out.bytes([3, 1, 0, 0, 0]);
+    }
+  }
+
+  get frameCount() {
+    return this.frames;
+  }
+
+  // `delayMs` is rounded to the format's 10ms resolution
+  addFrame(image: RgbaImage, delayMs: number) {
+    if (image.width !== this.width || image.height !== this.height)
+      throw new Error(
+        `Frame is ${image.width}x${image.height}, expected ${this.width}x${this.height}`
+      );
+    const { palette, indices } = indexFrame(image);
+    const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+    const out = this.out;
+    // Graphic control: delay only (no transparency, no disposal)
+    out.bytes([0x21, 0xf9, 4, 0]);
+    out.word(Math.max(2, Math.round(delayMs / 10)));
+    out.bytes([0, 0]);
+    // Image descriptor with a local color table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(this.width);
+    out.word(this.height);
+    out.byte(0x80 | (tableBits - 1));
+    for (let i = 0; i < 1 << tableBits; i++) {
+      const rgb = palette[i] ?? 0;
+      out.bytes([rgb >> 16, (rgb >> 8) & 0xff, rgb & 0xff]);
+    }
+    writeLzw(out, indices, Math.max(2, tableBits));
+    this.frames++;
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    this.out.byte(0x3b);
+    return this.out.result();
+  }
+}
@@ -0,0 +1,95 @@
+import { Cell } from "./kernel";
+
+// Bounded linear history of grid states with an undo/redo cursor.
+// Pushing while the cursor is behind the newest entry forks: the redo tail is dropped.
+
+export interface HistoryEntry {
+  grid: Cell[][];
+  cols: number;
+  rows: number;
+  generation: number;
+  label: string; // e.g. "Generation 3", "Cell (2,1)"
+  timestamp: number;
+}
+
+export function cloneGrid(grid: Cell[][]): Cell[][] {
+  return grid.map((row) => row.map((c) => ({ ...c })));
+}
+
+export class History {
+  private entries: HistoryEntry[] = [];
+  private cursor = -1;
+  private maxDepth: number;
+
+  constructor(maxDepth: number) {
+    this.maxDepth = Math.max(1, maxDepth);
+  }
+
+  push(entry: Omit<HistoryEntry, "timestamp">) {
+    this.entries.splice(this.cursor + 1);
+    this.entries.push({
+      ...entry,
+      grid: cloneGrid(entry.grid),
+      timestamp: Date.now(),
+    });
+    this.trim();
+    this.cursor = this.entries.length - 1;
+  }
+
+  setMaxDepth(depth: number) {
+    this.maxDepth = Math.max(1, depth);
+    this.trim();
+  }
+  getMaxDepth() {
+    return this.maxDepth;
+  }
+
+  // Drop the oldest entries beyond maxDepth, keeping the cursor on the same entry
+  private trim() {
+    const excess = this.entries.length - this.maxDepth;
+    if (excess <= 0) return;
+    this.entries.splice(0, excess);
+    this.cursor = Math.max(0, this.cursor - excess);
+  }
+
+  get length() {
+    return this.entries.length;
+  }
+  get position() {
+    return this.cursor;
+  }
+  canUndo() {
+    return this.cursor > 0;
+  }
+  canRedo() {
+    return this.cursor < this.entries.length - 1;
+  }
+
+  current(): HistoryEntry | null {
+    return this.entries[this.cursor] ?? null;
+  }
+  undo(): HistoryEntry | null {
+    return this.canUndo() ? this.goTo(this.cursor - 1) : null;
+  }
+  redo(): HistoryEntry | null {
+    return this.canRedo() ? this.goTo(this.cursor + 1) : null;
+  }
+  goTo(index: number): HistoryEntry | null {
+    if (index < 0 || index >= this.entries.length) return null;
+    this.cursor = index;
+    return this.entries[index];
+  }
+
+  // Replace all entries (experiment import); keeps the newest maxDepth
+  load(entries: HistoryEntry[], position: number) {
+    this.entries = entries.map((e) => ({ ...e, grid: cloneGrid(e.grid) }));
+    this.cursor = Math.max(0, Math.min(position, this.entries.length - 1));
+    this.trim();
+    if (!this.entries.length) this.cursor = -1;
+  }
+
+  // Read-only view, oldest first (used for export)
+  list(): readonly HistoryEntry[] {
+    return this.entries;
+  }
+}
@@ -1,33 +1,109 @@
 import p5 from "p5";
 import { Engine } from "./engine";
-import { DEFAULT_GRID_SIZE, CELL_SIZE } from "./constants";
+import {
+  DEFAULT_GRID_SIZE,
+  CELL_SIZE,
+  AUTOPLAY_DELAY_MS,
+  MAX_CYCLE_PERIOD,
+  MAX_GRID_SIZE,
+} from "./constants";
+import { ResizeAnchor } from "./simulation";
+import { renderMinimap, minimapToWorld } from "./minimap";
+import { THEMES } from "./cellRenderers";
+import {
+  canRecordWebm,
+  downloadBlob,
+  exportGif,
+  exportPng,
+  exportSpriteSheet,
+  exportWebm,
+} from "./exporter";
+import {
+  CellField,
+  formatSchemaSpec,
+  parseSchemaSpec,
+  visualFields,
+} from "./cellSchema";
+import {
+  DEFAULT_MODELS,
+  loadProviderSettings,
+  providerReady,
+  saveProviderSettings,
+} from "./providers";
+import { ProviderKind } from "./llmProvider";
+import { NeighborhoodKind, MAX_NEIGHBORHOOD_RADIUS } from "./neighborhood";
+import { renderMaskEditor } from "./maskEditor";
+import { renderUsagePanel } from "./usagePanel";
+import { catalogFor, priceFor } from "./pricing";
+import { renderPricingEditor } from "./pricingEditor";
+import { BoundaryMode } from "./boundary";
+import { openInlineEditor, closeInlineEditor } from "./inlineEditor";
+import { openInspector, closeInspector, isInspectorOpen } from "./inspector";
+import {
+  BUILT_IN_RULES,
+  LibraryRule,
+  loadUserRules,
+  parseTags,
+  renderRuleList,
+  saveUserRules,
+  searchRules,
+} from "./ruleLibrary";
+import {
+  BUILT_IN_TEMPLATES,
+  TemplatePreset,
+  highlightTemplate,
+  loadTemplatePresets,
+  renderTemplateIssues,
+  saveTemplatePresets,
+  validateTemplate,
+} from "./templateEditor";
+import { Autoplay, AutoplayResult } from "./autoplay";
+import {
+  Experiment,
+  autosaveExperiment,
+  decodePermalink,
+  downloadExperiment,
+  encodePermalink,
+  hasPermalink,
+  loadAutosave,
+  readExperimentFile,
+} from "./experiment";
+
+// Active canvas tool: "evolve" asks the model, "edit"/"paint" set text directly
+type CanvasTool = "evolve" | "edit" | "paint";
 
 let engine: Engine;
 let pInstance: p5;
 let isRunning = false; // guard to prevent concurrent generations
+const autoplay = new Autoplay();
+
+// Rule used when the prompt box is empty
+const FALLBACK_RULE =
+  "Update the cell based on neighbors; return the same value.";
+
+// Full generations require a usable provider (own key for OpenAI) and
+// spending below the hard limit
+const stepAllowed = () =>
+  providerReady(loadProviderSettings()) && !engine?.getUsage().limitReached();
 
 const runGeneration = async (
   promptInput: HTMLTextAreaElement | HTMLInputElement | null,
-  stepBtn: HTMLButtonElement | null
-) => {
-  if (isRunning) return; // already running
-  if (!promptInput) return;
+  stepBtn: HTMLButtonElement | null,
+  fromAutoplay = false
+): Promise<boolean> => {
+  if (isRunning) return false; // already running
+  if (autoplay.running && !fromAutoplay) return false; // the loop drives steps
+  if (!promptInput) return false;
   // Prevent running full generation if no API key set
-  const keyPresent = !!(
-    (window as any).__OPENAI_KEY__ ||
-    localStorage.getItem("openai_api_key")?.trim()
-  );
-  if (!keyPresent) return;
-  const rulePrompt =
-    promptInput.value ||
-    "Update the cell based on neighbors; return the same value.";
+  if (!stepAllowed()) return false;
+  const rulePrompt = promptInput.value || FALLBACK_RULE;
 
   const mobileBtn = document.getElementById(
     "mobileStepBtn"
   ) as HTMLButtonElement | null;
 
   // If either button is already disabled (defensive) do nothing
-  if (stepBtn?.disabled || mobileBtn?.disabled) return;
+  if (stepBtn?.disabled || mobileBtn?.disabled) return false;
 
   const desktopLabel = stepBtn?.dataset.label || stepBtn?.textContent || "Step";
   const mobileLabel =
@@ -47,12 +123,15 @@ const runGeneration = async (
     }
 
     const start = performance.now();
-    await engine.nextGeneration(rulePrompt, pInstance);
+    const completed = await engine.nextGeneration(rulePrompt);
     engine.draw(pInstance);
     const elapsed = Math.round(performance.now() - start);
+    autosaveExperiment(engine.toExperiment(promptInput.value));
 
-    if (stepBtn) stepBtn.textContent = `${desktopLabel} (${elapsed}ms)`;
-    if (mobileBtn) mobileBtn.textContent = `${mobileLabel} (${elapsed}ms)`;
+    const suffix = completed ? `(${elapsed}ms)` : "(stopped)";
+    if (stepBtn) stepBtn.textContent = `${desktopLabel} ${suffix}`;
+    if (mobileBtn) mobileBtn.textContent = `${mobileLabel} ${suffix}`;
+    return completed;
   } finally {
     if (stepBtn) stepBtn.disabled = false;
     if (mobileBtn) mobileBtn.disabled = false;
@@ -65,6 +144,8 @@ const sketch = (p: p5) => {
   p.setup = () => {
     engine = new Engine(DEFAULT_GRID_SIZE, DEFAULT_GRID_SIZE);
     engine.initHelperFromStorage();
+    engine.setChangeListener(() => engine.draw(p));
+    engine.setTheme(localStorage.getItem("canvas_theme") ?? THEMES[0].name);
     const canvas = p
       .createCanvas(engine.cols * CELL_SIZE, engine.rows * CELL_SIZE)
       .parent("app") as unknown as { canvas?: HTMLCanvasElement };
@@ -72,26 +153,32 @@ const sketch = (p: p5) => {
     p.textSize(CELL_SIZE * 0.32);
     p.noLoop();
 
-    // Explicit size fitting (no transform) to keep cells square when width constrained
+    // Canvas box follows the grid's aspect within the available space (never
+    // larger than the grid at CELL_SIZE); zoom & pan happen inside it
     const fitCanvas = () => {
-      const canvasEl = (p as any)?._renderer?.canvas as
-        | HTMLCanvasElement
-        | undefined;
-      if (!canvasEl) return;
       const wrap = document.getElementById("canvasWrap");
-      const parent = wrap || canvasEl.parentElement;
-      if (!parent) return;
-      const base = engine.cols * CELL_SIZE; // intrinsic square side
-      const available = parent.clientWidth;
-      const display = Math.min(base, available);
-      canvasEl.style.width = display + "px";
-      canvasEl.style.height = display + "px"; // force square display
+      if (!wrap) return;
+      const aspect = engine.rows / engine.cols;
+      const maxW = Math.min(wrap.clientWidth, engine.cols * CELL_SIZE);
+      const maxH = Math.max(160, window.innerHeight * 0.8);
+      const width = Math.max(120, Math.floor(Math.min(maxW, maxH / aspect)));
+      const height = Math.max(120, Math.floor(width * aspect));
+      if (width !== p.width || height !== p.height)
+        p.resizeCanvas(width, height);
+      engine.getViewport().setSize(width, height);
+      engine.draw(p);
     };
     window.addEventListener("resize", fitCanvas, { passive: true });
 
-    const sizeInput = document.getElementById(
-      "gridSizeInput"
+    const gridColsInput = document.getElementById(
+      "gridColsInput"
+    ) as HTMLInputElement | null;
+    const gridRowsInput = document.getElementById(
+      "gridRowsInput"
     ) as HTMLInputElement | null;
+    const resizeAnchorSelect = document.getElementById(
+      "resizeAnchorSelect"
+    ) as HTMLSelectElement | null;
     const stepBtn = document.getElementById(
       "stepBtn"
     ) as HTMLButtonElement | null;
@@ -108,22 +195,100 @@ const sketch = (p: p5) => {
     const toggleApiBtn = document.getElementById(
       "toggleApiKey"
     ) as HTMLButtonElement | null;
+    const providerSelect = document.getElementById(
+      "providerSelect"
+    ) as HTMLSelectElement | null;
+    const modelInput = document.getElementById(
+      "modelInput"
+    ) as HTMLInputElement | null;
+    const baseUrlInput = document.getElementById(
+      "baseUrlInput"
+    ) as HTMLInputElement | null;
+    const baseUrlField = document.getElementById("baseUrlField");
+    const modelCatalog = document.getElementById("modelCatalog");
+    const pricingWarning = document.getElementById("pricingWarning");
+    const pricingEditor = document.getElementById("pricingEditor");
     const tokenCost = document.getElementById("tokenCost");
     if (tokenCost) engine.setTokenDiv(tokenCost);
+    const cacheStats = document.getElementById("cacheStats");
+    if (cacheStats) engine.setCacheDiv(cacheStats);
+    const batchStats = document.getElementById("batchStats");
+    if (batchStats) engine.setBatchDiv(batchStats);
+
+    const noKeyHint = document.getElementById("noKeyHint");
+    // Helper to refresh button disabled state
+    const refreshStepButtons = () => {
+      const ready = stepAllowed();
+      if (stepBtn) stepBtn.disabled = !ready;
+      if (mobileStepBtn) mobileStepBtn.disabled = !ready;
+      const runBtn = document.getElementById(
+        "runBtn"
+      ) as HTMLButtonElement | null;
+      if (runBtn && !autoplay.running) runBtn.disabled = !ready;
+      if (noKeyHint) noKeyHint.style.display = ready ? "none" : "block";
+    };
+
+    // Provider & model selection persistence
+    if (providerSelect) {
+      const settings = loadProviderSettings();
+      providerSelect.value = settings.kind;
+      if (modelInput) modelInput.value = settings.model;
+      if (baseUrlInput) baseUrlInput.value = settings.baseURL;
+      const activeModel = () => {
+        const kind = providerSelect.value as ProviderKind;
+        return modelInput?.value.trim() || DEFAULT_MODELS[kind];
+      };
+      // Catalog suggestions + a warning when the model has no pricing entry
+      const syncPricing = () => {
+        const kind = providerSelect.value as ProviderKind;
+        const model = activeModel();
+        if (modelCatalog) {
+          modelCatalog.innerHTML = "";
+          for (const id of catalogFor(kind)) {
+            const option = document.createElement("option");
+            option.value = id;
+            modelCatalog.appendChild(option);
+          }
+        }
+        if (pricingWarning) {
+          const unpriced = kind !== "mock" && !priceFor(model);
+          pricingWarning.style.display = unpriced ? "block" : "none";
+          pricingWarning.textContent = unpriced
+            ? `No pricing for "${model}": costs will show as unknown. Add an entry under Models & Pricing.`
+            : "";
+        }
+      };
+      const syncProviderFields = () => {
+        const kind = providerSelect.value as ProviderKind;
+        if (modelInput) modelInput.placeholder = DEFAULT_MODELS[kind];
+        if (baseUrlField)
+          baseUrlField.style.display = kind === "compatible" ? "" : "none";
+        syncPricing();
+        if (pricingEditor)
+          renderPricingEditor(pricingEditor, activeModel(), syncPricing);
+      };
+      const applyProvider = () => {
+        saveProviderSettings({
+          ...loadProviderSettings(),
+          kind: providerSelect.value as ProviderKind,
+          model: modelInput?.value.trim() || "",
+          baseURL: baseUrlInput?.value.trim() || "",
+        });
+        syncProviderFields();
+        engine.initHelperFromStorage();
+        engine.updateTokenDisplay();
+        refreshStepButtons();
+      };
+      syncProviderFields();
+      providerSelect.addEventListener("change", applyProvider);
+      modelInput?.addEventListener("change", applyProvider);
+      baseUrlInput?.addEventListener("change", applyProvider);
+    }
 
     // API key persistence
     if (apiKeyInput) {
       const stored = localStorage.getItem("openai_api_key");
       if (stored) apiKeyInput.value = stored;
-      const noKeyHint = document.getElementById("noKeyHint");
-      // Helper to refresh button disabled state
-      const refreshStepButtons = () => {
-        const present = !!apiKeyInput.value.trim();
-        if (stepBtn) stepBtn.disabled = !present;
-        if (mobileStepBtn) mobileStepBtn.disabled = !present;
-        if (noKeyHint) noKeyHint.style.display = present ? "none" : "block";
-      };
-      refreshStepButtons();
       apiKeyInput.addEventListener("change", () => {
         const val = apiKeyInput.value.trim();
         if (val) {
@@ -139,6 +304,322 @@ const sketch = (p: p5) => {
         refreshStepButtons();
       });
     }
+    refreshStepButtons();
+
+    // Usage dashboard (re-rendered on every usage update) and hard spend limit
+    const usageStats = document.getElementById("usageStats");
+    const usageChart = document.getElementById(
+      "usageChart"
+    ) as SVGSVGElement | null;
+    const usageProjection = document.getElementById("usageProjection");
+    const spendLimitStatus = document.getElementById("spendLimitStatus");
+    const spendLimitInput = document.getElementById(
+      "spendLimitInput"
+    ) as HTMLInputElement | null;
+    const usage = engine.getUsage();
+    let usageFrame = 0;
+    engine.setUsageListener(() => {
+      if (usageFrame) return; // coalesce per-cell updates into one render
+      usageFrame = requestAnimationFrame(() => {
+        usageFrame = 0;
+        if (usageStats && usageChart && usageProjection && spendLimitStatus)
+          renderUsagePanel(
+            {
+              stats: usageStats,
+              chart: usageChart,
+              projection: usageProjection,
+              limitStatus: spendLimitStatus,
+            },
+            usage,
+            engine.cols * engine.rows
+          );
+        refreshStepButtons();
+      });
+    });
+    if (spendLimitInput) {
+      spendLimitInput.value = usage.getLimit() ? String(usage.getLimit()) : "";
+      spendLimitInput.addEventListener("change", () => {
+        const val = parseFloat(spendLimitInput.value);
+        usage.setLimit(isNaN(val) ? 0 : val);
+        engine.updateTokenDisplay();
+      });
+    }
+    document.getElementById("resetUsageBtn")?.addEventListener("click", () => {
+      if (!window.confirm("Reset all recorded usage and cost totals?")) return;
+      usage.reset();
+      engine.updateTokenDisplay();
+    });
+
+    // Cell prompt template: highlighted editor, placeholder checks, live
+    // preview for the last clicked cell and named presets
+    const templateInput = document.getElementById(
+      "templateInput"
+    ) as HTMLTextAreaElement | null;
+    const templateHighlight = document.getElementById("templateHighlight");
+    const templateIssues = document.getElementById("templateIssues");
+    const templatePreview = document.getElementById("templatePreview");
+    const templatePreviewCell = document.getElementById("templatePreviewCell");
+    const templatePresetSelect = document.getElementById(
+      "templatePresetSelect"
+    ) as HTMLSelectElement | null;
+    const templateDeleteBtn = document.getElementById(
+      "templateDeleteBtn"
+    ) as HTMLButtonElement | null;
+    let previewCell = { x: 0, y: 0 };
+    const presetKey = (preset: TemplatePreset) =>
+      (preset.builtIn ? "b:" : "u:") + preset.name;
+    const allPresets = () => [...BUILT_IN_TEMPLATES, ...loadTemplatePresets()];
+    const renderPresets = () => {
+      if (!templatePresetSelect || !templateInput) return;
+      const presets = allPresets();
+      const match = presets.find((t) => t.template === templateInput.value);
+      templatePresetSelect.innerHTML = "";
+      if (!match) templatePresetSelect.add(new Option("(unsaved)", ""));
+      for (const preset of presets)
+        templatePresetSelect.add(
+          new Option(
+            preset.builtIn ? preset.name : `★ ${preset.name}`,
+            presetKey(preset)
+          )
+        );
+      templatePresetSelect.value = match ? presetKey(match) : "";
+      if (templateDeleteBtn)
+        templateDeleteBtn.disabled = !match || !!match.builtIn;
+    };
+    const refreshTemplatePreview = () => {
+      previewCell = {
+        x: Math.min(previewCell.x, engine.cols - 1),
+        y: Math.min(previewCell.y, engine.rows - 1),
+      };
+      if (templatePreviewCell)
+        templatePreviewCell.textContent = `cell (${previewCell.x},${previewCell.y}) · click a cell to change`;
+      if (templatePreview)
+        templatePreview.textContent =
+          engine.previewPrompt(
+            (promptInput && promptInput.value) || FALLBACK_RULE,
+            previewCell.x,
+            previewCell.y
+          ) ?? "";
+    };
+    const refreshTemplate = () => {
+      if (!templateInput) return;
+      const labels = engine.neighborLabels();
+      if (templateHighlight)
+        templateHighlight.innerHTML = highlightTemplate(
+          templateInput.value,
+          labels
+        );
+      if (templateIssues)
+        renderTemplateIssues(
+          templateIssues,
+          validateTemplate(templateInput.value, labels)
+        );
+      refreshTemplatePreview();
+    };
+    // Engine → editor (startup, experiment loads)
+    const syncTemplateInput = () => {
+      if (!templateInput) return;
+      templateInput.value = engine.getTemplate();
+      refreshTemplate();
+      renderPresets();
+    };
+    const applyTemplate = () => {
+      if (!templateInput) return;
+      engine.setTemplate(templateInput.value);
+      refreshTemplate();
+      renderPresets();
+    };
+    templateInput?.addEventListener("input", applyTemplate);
+    templateInput?.addEventListener("change", () => {
+      if (promptInput)
+        autosaveExperiment(engine.toExperiment(promptInput.value));
+    });
+    templateInput?.addEventListener("scroll", () => {
+      if (templateHighlight)
+        templateHighlight.scrollTop = templateInput.scrollTop;
+    });
+    promptInput?.addEventListener("input", refreshTemplatePreview);
+    templatePresetSelect?.addEventListener("change", () => {
+      const preset = allPresets().find(
+        (t) => presetKey(t) === templatePresetSelect.value
+      );
+      if (!preset || !templateInput) return;
+      templateInput.value = preset.template;
+      applyTemplate();
+      templateInput.dispatchEvent(new Event("change")); // autosave
+    });
+    document
+      .getElementById("templateSaveBtn")
+      ?.addEventListener("click", () => {
+        if (!templateInput) return;
+        const name = window.prompt("Save template preset as:")?.trim();
+        if (!name) return;
+        const presets = loadTemplatePresets().filter((t) => t.name !== name);
+        presets.push({ name, template: templateInput.value });
+        saveTemplatePresets(presets);
+        renderPresets();
+      });
+    templateDeleteBtn?.addEventListener("click", () => {
+      const value = templatePresetSelect?.value || "";
+      if (!value.startsWith("u:")) return;
+      saveTemplatePresets(
+        loadTemplatePresets().filter((t) => t.name !== value.slice(2))
+      );
+      renderPresets();
+    });
+    syncTemplateInput();
+
+    // Cell fields: spec text plus which fields drive background & caption
+    const cellSchemaInput = document.getElementById(
+      "cellSchemaInput"
+    ) as HTMLTextAreaElement | null;
+    const backgroundFieldSelect = document.getElementById(
+      "backgroundFieldSelect"
+    ) as HTMLSelectElement | null;
+    const captionFieldSelect = document.getElementById(
+      "captionFieldSelect"
+    ) as HTMLSelectElement | null;
+    const cellSchemaStatus = document.getElementById("cellSchemaStatus");
+    const fillFieldSelect = (
+      select: HTMLSelectElement | null,
+      fields: CellField[],
+      value: string | undefined,
+      auto: string | undefined
+    ) => {
+      if (!select) return;
+      select.innerHTML = "";
+      const first = document.createElement("option");
+      first.value = "";
+      first.textContent = auto ? `Auto (${auto})` : "None";
+      select.appendChild(first);
+      for (const f of fields) {
+        const option = document.createElement("option");
+        option.value = f.name;
+        option.textContent = f.name;
+        select.appendChild(option);
+      }
+      select.value = value ?? "";
+    };
+    const syncFieldSelects = () => {
+      const config = engine.getCellSchema();
+      const auto = visualFields({ fields: config.fields });
+      fillFieldSelect(
+        backgroundFieldSelect,
+        config.fields.filter((f) => f.type === "color"),
+        config.background,
+        auto.background
+      );
+      fillFieldSelect(
+        captionFieldSelect,
+        config.fields,
+        config.caption,
+        auto.caption
+      );
+      if (backgroundFieldSelect)
+        backgroundFieldSelect.disabled = !config.fields.length;
+      if (captionFieldSelect)
+        captionFieldSelect.disabled = !config.fields.length;
+    };
+    const syncCellSchemaInput = () => {
+      if (cellSchemaInput)
+        cellSchemaInput.value = formatSchemaSpec(engine.getCellSchema().fields);
+      if (cellSchemaStatus) cellSchemaStatus.textContent = "";
+      syncFieldSelects();
+    };
+    const applyCellSchema = () => {
+      let fields: CellField[];
+      try {
+        fields = parseSchemaSpec(cellSchemaInput?.value ?? "");
+      } catch (e) {
+        if (cellSchemaStatus) {
+          cellSchemaStatus.textContent = (e as Error).message;
+          cellSchemaStatus.classList.add("reached");
+        }
+        return;
+      }
+      const pick = (select: HTMLSelectElement | null) =>
+        fields.some((f) => f.name === select?.value)
+          ? select!.value
+          : undefined;
+      engine.setCellSchema({
+        fields,
+        background: pick(backgroundFieldSelect),
+        caption: pick(captionFieldSelect),
+      });
+      if (cellSchemaStatus) {
+        cellSchemaStatus.textContent = fields.length
+          ? `${fields.length} field${fields.length === 1 ? "" : "s"} active`
+          : "Plain text cells";
+        cellSchemaStatus.classList.remove("reached");
+      }
+      syncFieldSelects();
+      refreshTemplatePreview();
+      engine.draw(p);
+      if (promptInput)
+        autosaveExperiment(engine.toExperiment(promptInput.value));
+    };
+    cellSchemaInput?.addEventListener("change", applyCellSchema);
+    backgroundFieldSelect?.addEventListener("change", applyCellSchema);
+    captionFieldSelect?.addEventListener("change", applyCellSchema);
+    syncCellSchemaInput();
+
+    // Neighborhood shape (radius also sizes the custom mask editor)
+    const neighborhoodSelect = document.getElementById(
+      "neighborhoodSelect"
+    ) as HTMLSelectElement | null;
+    const radiusInput = document.getElementById(
+      "radiusInput"
+    ) as HTMLInputElement | null;
+    const maskEditor = document.getElementById("maskEditor");
+    if (neighborhoodSelect) {
+      const applyNeighborhood = () => {
+        const kind = neighborhoodSelect.value as NeighborhoodKind;
+        const parsed = radiusInput ? parseInt(radiusInput.value, 10) : 1;
+        const radius = isNaN(parsed)
+          ? 1
+          : Math.max(1, Math.min(MAX_NEIGHBORHOOD_RADIUS, parsed));
+        // Drop mask offsets that fall outside a shrunken radius
+        const mask = engine
+          .getNeighborhood()
+          .mask.filter(
+            (o) => Math.abs(o.dx) <= radius && Math.abs(o.dy) <= radius
+          );
+        engine.setNeighborhood({ kind, radius, mask });
+        if (maskEditor) {
+          maskEditor.style.display = kind === "custom" ? "" : "none";
+          if (kind === "custom")
+            renderMaskEditor(maskEditor, radius, mask, (next) => {
+              engine.setNeighborhood({ kind, radius, mask: next });
+              refreshTemplate();
+            });
+        }
+        refreshTemplate(); // per-neighbor placeholders follow the labels
+      };
+      neighborhoodSelect.addEventListener("change", applyNeighborhood);
+      radiusInput?.addEventListener("change", applyNeighborhood);
+      applyNeighborhood();
+    }
+
+    // Boundary conditions (edge text only applies to "fixed")
+    const boundarySelect = document.getElementById(
+      "boundarySelect"
+    ) as HTMLSelectElement | null;
+    const edgeValueInput = document.getElementById(
+      "edgeValueInput"
+    ) as HTMLInputElement | null;
+    const edgeValueField = document.getElementById("edgeValueField");
+    if (boundarySelect) {
+      const applyBoundary = () => {
+        const mode = boundarySelect.value as BoundaryMode;
+        engine.setBoundary({ mode, edgeValue: edgeValueInput?.value ?? "" });
+        if (edgeValueField)
+          edgeValueField.style.display = mode === "fixed" ? "" : "none";
+        refreshTemplatePreview();
+      };
+      boundarySelect.addEventListener("change", applyBoundary);
+      edgeValueInput?.addEventListener("change", applyBoundary);
+      applyBoundary();
+    }
 
     // Toggle API key visibility
     if (toggleApiBtn && apiKeyInput) {
@@ -153,87 +634,514 @@ const sketch = (p: p5) => {
       });
     }
 
-    // Automatic resize on slider movement (range 1-8)
-    sizeInput?.addEventListener("input", () => {
-      const val = sizeInput ? parseInt(sizeInput.value, 10) : engine.cols;
-      if (!isNaN(val) && val > 0 && val <= 8) {
-        engine.resize(val, p);
-        engine.draw(p);
-        // fitCanvas is in scope
-        (function resizeCanvasFit() {
-          const canvasEl = (p as any)?._renderer?.canvas as
-            | HTMLCanvasElement
-            | undefined;
-          if (!canvasEl) return;
-          const wrap = document.getElementById("canvasWrap");
-          const parent = wrap || canvasEl.parentElement;
-          if (!parent) return;
-          const base = engine.cols * CELL_SIZE;
-          const available = parent.clientWidth;
-          const display = Math.min(base, available);
-          canvasEl.style.width = display + "px";
-          canvasEl.style.height = display + "px";
-        })();
+    // Grid dimensions (1-MAX_GRID_SIZE per side); content kept at the chosen anchor
+    const syncGridInputs = () => {
+      if (gridColsInput) gridColsInput.value = String(engine.cols);
+      if (gridRowsInput) gridRowsInput.value = String(engine.rows);
+    };
+    const applyGridSize = () => {
+      const cols = parseInt(gridColsInput?.value ?? "", 10);
+      const rows = parseInt(gridRowsInput?.value ?? "", 10);
+      const valid = (n: number) => n >= 1 && n <= MAX_GRID_SIZE;
+      const anchor = (resizeAnchorSelect?.value || "top-left") as ResizeAnchor;
+      if (valid(cols) && valid(rows) && engine.resize(cols, rows, anchor)) {
+        fitCanvas();
+        refreshTemplatePreview();
+        engine.updateTokenDisplay(); // projection depends on the cell count
       }
-    });
+      syncGridInputs();
+    };
+    gridColsInput?.addEventListener("change", applyGridSize);
+    gridRowsInput?.addEventListener("change", applyGridSize);
 
     stepBtn?.addEventListener("click", async () => {
       if (isRunning) return;
       // Skip if no key
-      const keyPresent = !!(
-        (window as any).__OPENAI_KEY__ ||
-        localStorage.getItem("openai_api_key")?.trim()
-      );
-      if (!keyPresent) return;
+      if (!stepAllowed()) return;
       await runGeneration(promptInput, stepBtn);
     });
 
     mobileStepBtn?.addEventListener("click", async () => {
       if (isRunning) return;
-      const keyPresent = !!(
-        (window as any).__OPENAI_KEY__ ||
-        localStorage.getItem("openai_api_key")?.trim()
-      );
-      if (!keyPresent) return;
+      if (!stepAllowed()) return;
       await runGeneration(promptInput, stepBtn); // stepBtn drives label; mobile handled inside runGeneration
     });
 
+    // Autoplay: loop generations until paused, limit, fixed point, cycle or budget
+    const runBtn = document.getElementById(
+      "runBtn"
+    ) as HTMLButtonElement | null;
+    const runDelayInput = document.getElementById(
+      "runDelayInput"
+    ) as HTMLInputElement | null;
+    const runCountInput = document.getElementById(
+      "runCountInput"
+    ) as HTMLInputElement | null;
+    const runBudgetInput = document.getElementById(
+      "runBudgetInput"
+    ) as HTMLInputElement | null;
+    const autoplayStatus = document.getElementById("autoplayStatus");
+    const numberFrom = (input: HTMLInputElement | null, fallback: number) => {
+      const val = input ? parseFloat(input.value) : NaN;
+      return isNaN(val) || val < 0 ? fallback : val;
+    };
+    const describeStop = (r: AutoplayResult) => {
+      const after = `after ${r.generations} generation${
+        r.generations === 1 ? "" : "s"
+      } ($${r.cost.toFixed(4)})`;
+      if (engine.getUsage().limitReached())
+        return `Spend limit reached ${after}.`;
+      switch (r.reason) {
+        case "fixedPoint":
+          return `Fixed point reached ${after}.`;
+        case "cycle":
+          return `Cycle detected (period ${r.period}) ${after}.`;
+        case "budget":
+          return `Budget reached ${after}.`;
+        case "limit":
+          return `Finished ${after}.`;
+        case "refused":
+          return `Stopped: generation could not start ${after}.`;
+        default:
+          return `Paused ${after}.`;
+      }
+    };
+    runBtn?.addEventListener("click", async () => {
+      if (autoplay.running) {
+        autoplay.pause();
+        runBtn.textContent = "Pausing...";
+        return;
+      }
+      if (isRunning || !stepAllowed()) return;
+      runBtn.textContent = "Pause";
+      if (autoplayStatus) autoplayStatus.textContent = "Running...";
+      let status: string;
+      try {
+        const result = await autoplay.run(
+          {
+            delayMs: numberFrom(runDelayInput, AUTOPLAY_DELAY_MS),
+            maxGenerations: Math.floor(numberFrom(runCountInput, 0)),
+            budget: numberFrom(runBudgetInput, 0),
+            maxPeriod: MAX_CYCLE_PERIOD,
+          },
+          {
+            step: () => runGeneration(promptInput, stepBtn, true),
+            stateKey: () =>
+              JSON.stringify(engine.grid.map((row) => row.map((c) => c.text))),
+            spent: () => engine.getUsage().getTotals().cost, // as the spend limit
+            onProgress: (n) => {
+              if (autoplayStatus)
+                autoplayStatus.textContent = `Running... ${n} generation${
+                  n === 1 ? "" : "s"
+                }`;
+            },
+          }
+        );
+        status = describeStop(result);
+      } catch (e) {
+        console.error("Autoplay stopped by an error", e);
+        status = `Stopped: ${e instanceof Error ? e.message : String(e)}`;
+      }
+      runBtn.textContent = "Run";
+      if (autoplayStatus) autoplayStatus.textContent = status;
+    });
+
+    // Stop (or Escape): end autoplay and abort everything in flight or queued
+    document.getElementById("stopBtn")?.addEventListener("click", () => {
+      autoplay.pause();
+      engine.cancel();
+    });
+
+    // History timeline: slider scrubs, undo/redo step; acting on a past state forks
+    const timelineSlider = document.getElementById(
+      "timelineSlider"
+    ) as HTMLInputElement | null;
+    const timelineLabel = document.getElementById("timelineLabel");
+    const undoBtn = document.getElementById(
+      "undoBtn"
+    ) as HTMLButtonElement | null;
+    const redoBtn = document.getElementById(
+      "redoBtn"
+    ) as HTMLButtonElement | null;
+    const historyDepthInput = document.getElementById(
+      "historyDepthInput"
+    ) as HTMLInputElement | null;
+    const refreshHistory = () => {
+      const h = engine.getHistoryState();
+      if (timelineSlider) {
+        timelineSlider.max = String(Math.max(0, h.length - 1));
+        timelineSlider.value = String(h.position);
+      }
+      if (timelineLabel)
+        timelineLabel.textContent = h.current
+          ? `${h.position + 1}/${h.length} · ${h.current.label}`
+          : "";
+      if (undoBtn) undoBtn.disabled = !h.canUndo;
+      if (redoBtn) redoBtn.disabled = !h.canRedo;
+    };
+    // Restored entries may carry a different grid size
+    const afterRestore = () => {
+      syncGridInputs();
+      fitCanvas();
+    };
+    // Failed cells: count on the retry button (refreshed with every recorded change)
+    const retryFailedBtn = document.getElementById(
+      "retryFailedBtn"
+    ) as HTMLButtonElement | null;
+    const refreshFailed = () => {
+      if (!retryFailedBtn) return;
+      const n = engine.failedCount();
+      retryFailedBtn.disabled = n === 0;
+      retryFailedBtn.textContent = n ? `Retry failed (${n})` : "Retry failed";
+    };
+    retryFailedBtn?.addEventListener("click", async () => {
+      if (isRunning || autoplay.running) return;
+      const rulePrompt = (promptInput && promptInput.value) || FALLBACK_RULE;
+      await engine.retryFailed(rulePrompt);
+      refreshFailed();
+    });
+    engine.setHistoryListener(() => {
+      refreshHistory();
+      refreshFailed();
+      refreshTemplatePreview();
+    });
+    refreshFailed();
+    refreshHistory();
+    timelineSlider?.addEventListener("input", () => {
+      if (engine.jumpTo(parseInt(timelineSlider.value, 10))) afterRestore();
+      else refreshHistory(); // snap back if navigation was refused
+    });
+    undoBtn?.addEventListener("click", () => {
+      if (engine.undo()) afterRestore();
+    });
+    redoBtn?.addEventListener("click", () => {
+      if (engine.redo()) afterRestore();
+    });
+    historyDepthInput?.addEventListener("change", () => {
+      const val = parseInt(historyDepthInput.value, 10);
+      if (!isNaN(val) && val > 0) engine.setHistoryDepth(val);
+    });
+
+    // Cells per model request (persisted)
+    const batchSizeInput = document.getElementById(
+      "batchSizeInput"
+    ) as HTMLInputElement | null;
+    const storedBatch = parseInt(localStorage.getItem("batch_size") || "", 10);
+    if (!isNaN(storedBatch)) engine.setBatchSize(storedBatch);
+    if (batchSizeInput) {
+      batchSizeInput.value = String(engine.getBatchSize());
+      batchSizeInput.addEventListener("change", () => {
+        const val = parseInt(batchSizeInput.value, 10);
+        if (!isNaN(val)) engine.setBatchSize(val);
+        batchSizeInput.value = String(engine.getBatchSize());
+        localStorage.setItem("batch_size", batchSizeInput.value);
+      });
+    }
+
+    // Response cache toggles (persisted)
+    const cacheEnabledInput = document.getElementById(
+      "cacheEnabledInput"
+    ) as HTMLInputElement | null;
+    const cachePersistInput = document.getElementById(
+      "cachePersistInput"
+    ) as HTMLInputElement | null;
+    const clearCacheBtn = document.getElementById(
+      "clearCacheBtn"
+    ) as HTMLButtonElement | null;
+    const cache = engine.getCache();
+    cache.enabled = localStorage.getItem("cache_enabled") !== "0";
+    cache.persist = localStorage.getItem("cache_persist") === "1";
+    if (cacheEnabledInput) {
+      cacheEnabledInput.checked = cache.enabled;
+      cacheEnabledInput.addEventListener("change", () => {
+        cache.enabled = cacheEnabledInput.checked;
+        localStorage.setItem("cache_enabled", cache.enabled ? "1" : "0");
+      });
+    }
+    if (cachePersistInput) {
+      cachePersistInput.checked = cache.persist;
+      cachePersistInput.addEventListener("change", () => {
+        cache.persist = cachePersistInput.checked;
+        localStorage.setItem("cache_persist", cache.persist ? "1" : "0");
+      });
+    }
+    clearCacheBtn?.addEventListener("click", async () => {
+      await cache.clear();
+      engine.updateTokenDisplay();
+    });
+
     // Keyboard shortcut Ctrl+Enter for step (respect running state)
     document.addEventListener("keydown", (e) => {
       if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
         if (isRunning) return; // ignore while running
-        const keyPresent = !!(
-          (window as any).__OPENAI_KEY__ ||
-          localStorage.getItem("openai_api_key")?.trim()
-        );
-        if (!keyPresent) return;
+        if (!stepAllowed()) return;
         e.preventDefault();
         runGeneration(promptInput, stepBtn);
+        return;
+      }
+      // Escape closes the inspector first, then stops everything (same as the Stop button)
+      if (e.key === "Escape" && isInspectorOpen()) {
+        closeInspector();
+        return;
+      }
+      if (e.key === "Escape") {
+        autoplay.pause();
+        engine.cancel();
+        return;
       }
+      // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y – leave native text undo alone in fields
+      const target = e.target as HTMLElement | null;
+      if (target && /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      const redo = key === "y" || (key === "z" && e.shiftKey);
+      if (key !== "z" && !redo) return;
+      e.preventDefault();
+      if (redo ? engine.redo() : engine.undo()) afterRestore();
     });
 
-    // Canvas single-cell update
+    // Canvas tools & seeding
+    let tool: CanvasTool = "evolve";
+    const toolButtons = Array.from(
+      document.querySelectorAll<HTMLButtonElement>(".toolGroup [data-tool]")
+    );
+    const seedValueInput = document.getElementById(
+      "seedValueInput"
+    ) as HTMLInputElement | null;
+    const wordListInput = document.getElementById(
+      "wordListInput"
+    ) as HTMLInputElement | null;
     const canvasEl = (p as any)?._renderer?.canvas as
       | HTMLCanvasElement
       | undefined;
+    const setTool = (next: CanvasTool) => {
+      tool = next;
+      closeInlineEditor();
+      for (const btn of toolButtons) {
+        const on = btn.dataset.tool === next;
+        btn.classList.toggle("active", on);
+        btn.setAttribute("aria-checked", String(on));
+      }
+      // Let drags paint instead of scrolling the page on touch screens
+      if (canvasEl) canvasEl.style.touchAction = next === "paint" ? "none" : "";
+    };
+    for (const btn of toolButtons)
+      btn.addEventListener("click", () =>
+        setTool(btn.dataset.tool as CanvasTool)
+      );
+    document.getElementById("fillAllBtn")?.addEventListener("click", () => {
+      const value = seedValueInput?.value ?? "";
+      engine.seed(() => value, "Fill");
+    });
+    document.getElementById("fillRandomBtn")?.addEventListener("click", () => {
+      const words = (wordListInput?.value || "")
+        .split(",")
+        .map((w) => w.trim())
+        .filter(Boolean);
+      if (!words.length) return;
+      engine.seed(
+        () => words[Math.floor(Math.random() * words.length)],
+        "Random fill"
+      );
+    });
+    document.getElementById("clearGridBtn")?.addEventListener("click", () => {
+      engine.seed(() => "", "Clear");
+    });
+
+    // Canvas click / tap routed to the active tool
     if (canvasEl) {
-      const handlePoint = (clientX: number, clientY: number) => {
+      const view = engine.getViewport();
+      // Client → canvas px (the canvas may be shrunk by CSS)
+      const toCanvas = (clientX: number, clientY: number) => {
         const rect = canvasEl.getBoundingClientRect();
-        const mx = clientX - rect.left;
-        const my = clientY - rect.top;
-        // Account for CSS scaling (canvas logical size vs displayed size)
-        const scaleX = rect.width / (engine.cols * CELL_SIZE);
-        const scaleY = rect.height / (engine.rows * CELL_SIZE);
-        const cx = Math.floor(mx / (CELL_SIZE * scaleX));
-        const cy = Math.floor(my / (CELL_SIZE * scaleY));
-        const rulePrompt =
-          (promptInput && promptInput.value) ||
-          "Update the cell based on neighbors; return the same value.";
-        engine.updateSingleCell(cx, cy, rulePrompt, p);
+        const kx = view.width / rect.width;
+        const ky = view.height / rect.height;
+        return {
+          sx: (clientX - rect.left) * kx,
+          sy: (clientY - rect.top) * ky,
+          rect,
+          kx,
+          ky,
+        };
+      };
+      const cellAt = (clientX: number, clientY: number) => {
+        const { sx, sy, rect, kx, ky } = toCanvas(clientX, clientY);
+        const { cx, cy } = view.cellAt(sx, sy);
+        const cell = view.cellRect(cx, cy);
+        return {
+          cx,
+          cy,
+          rect: {
+            left: rect.left + cell.left / kx,
+            top: rect.top + cell.top / ky,
+            width: cell.width / kx,
+            height: cell.height / ky,
+          },
+        };
+      };
+      const handlePoint = (
+        clientX: number,
+        clientY: number,
+        inspect = false
+      ) => {
+        const { cx, cy, rect } = cellAt(clientX, clientY);
+        previewCell = { x: cx, y: cy };
+        refreshTemplatePreview();
+        // Shift-click: show how the cell got its value, with any tool
+        if (inspect) {
+          const current = engine.getCellText(cx, cy);
+          const host = document.getElementById("mainArea");
+          if (current === null || !host) return;
+          openInspector(host, cx, cy, engine.getProvenance(cx, cy), current);
+          return;
+        }
+        if (tool === "edit") {
+          const current = engine.getCellText(cx, cy);
+          const host = document.getElementById("canvasWrap");
+          if (current === null || !host) return;
+          openInlineEditor(host, rect, current, (text) =>
+            engine.editCell(cx, cy, text)
+          );
+          return;
+        }
+        if (tool !== "evolve") return; // paint handled by pointer events
+        const rulePrompt = (promptInput && promptInput.value) || FALLBACK_RULE;
+        engine.updateSingleCell(cx, cy, rulePrompt);
+      };
+
+      // Zoom & pan: wheel zooms around the pointer; drag pans (middle button
+      // with any tool, left button outside paint mode)
+      const redrawView = () => {
+        closeInlineEditor(); // it would sit over the wrong cell
+        engine.draw(p);
+      };
+      canvasEl.addEventListener(
+        "wheel",
+        (ev: WheelEvent) => {
+          ev.preventDefault();
+          const { sx, sy } = toCanvas(ev.clientX, ev.clientY);
+          view.zoomAt(Math.exp(-ev.deltaY * 0.0015), sx, sy);
+          redrawView();
+        },
+        { passive: false }
+      );
+      let pan: { x: number; y: number; moved: boolean } | null = null;
+      let suppressClick = false; // the click ending a pan drag
+      canvasEl.addEventListener("pointerdown", (ev: PointerEvent) => {
+        suppressClick = false;
+        if (ev.pointerType === "touch" || ev.shiftKey) return;
+        if (ev.button !== 1 && (ev.button !== 0 || tool === "paint")) return;
+        if (ev.button === 1) ev.preventDefault(); // no autoscroll
+        pan = { x: ev.clientX, y: ev.clientY, moved: false };
+      });
+      canvasEl.addEventListener("pointermove", (ev: PointerEvent) => {
+        if (!pan) return;
+        const dx = ev.clientX - pan.x;
+        const dy = ev.clientY - pan.y;
+        if (!pan.moved && Math.hypot(dx, dy) < 4) return;
+        if (!pan.moved) canvasEl.setPointerCapture(ev.pointerId);
+        pan = { x: ev.clientX, y: ev.clientY, moved: true };
+        const { kx, ky } = toCanvas(ev.clientX, ev.clientY);
+        view.panBy(dx * kx, dy * ky);
+        redrawView();
+      });
+      const endPan = () => {
+        if (pan?.moved) suppressClick = true;
+        pan = null;
+      };
+      canvasEl.addEventListener("pointerup", endPan);
+      canvasEl.addEventListener("pointercancel", endPan);
+      canvasEl.addEventListener("auxclick", (ev) => ev.preventDefault());
+
+      const zoomLabel = document.getElementById("zoomLabel");
+      const zoomBy = (factor: number) => {
+        view.zoomAt(factor);
+        redrawView();
       };
+      document
+        .getElementById("zoomInBtn")
+        ?.addEventListener("click", () => zoomBy(1.5));
+      document
+        .getElementById("zoomOutBtn")
+        ?.addEventListener("click", () => zoomBy(1 / 1.5));
+      document.getElementById("zoomFitBtn")?.addEventListener("click", () => {
+        view.fit();
+        redrawView();
+      });
+
+      // Canvas theme (persisted)
+      const themeSelect = document.getElementById(
+        "themeSelect"
+      ) as HTMLSelectElement | null;
+      if (themeSelect) {
+        themeSelect.innerHTML = "";
+        for (const theme of THEMES)
+          themeSelect.add(new Option(theme.label, theme.name));
+        themeSelect.value = engine.getTheme().name;
+        themeSelect.addEventListener("change", () => {
+          engine.setTheme(themeSelect.value);
+          localStorage.setItem("canvas_theme", themeSelect.value);
+          engine.draw(p);
+        });
+      }
+
+      // Minimap: only while part of the grid is off screen; click/drag recenters
+      const minimap = document.getElementById(
+        "minimap"
+      ) as HTMLCanvasElement | null;
+      engine.setDrawListener(() => {
+        if (zoomLabel)
+          zoomLabel.textContent = `${Math.round(view.zoomLevel() * 100)}%`;
+        if (!minimap) return;
+        minimap.hidden = view.showsAll();
+        if (!minimap.hidden)
+          renderMinimap(
+            minimap,
+            engine.cols,
+            engine.rows,
+            (x, y) => engine.minimapCell(x, y),
+            view
+          );
+      });
+      if (minimap) {
+        const recenter = (ev: PointerEvent) => {
+          const w = minimapToWorld(
+            minimap,
+            engine.cols,
+            engine.rows,
+            ev.clientX,
+            ev.clientY
+          );
+          view.centerOn(w.x, w.y);
+          redrawView();
+        };
+        let dragging = false;
+        minimap.addEventListener("pointerdown", (ev: PointerEvent) => {
+          dragging = true;
+          minimap.setPointerCapture(ev.pointerId);
+          recenter(ev);
+        });
+        minimap.addEventListener("pointermove", (ev: PointerEvent) => {
+          if (dragging) recenter(ev);
+        });
+        minimap.addEventListener("pointerup", () => (dragging = false));
+        minimap.addEventListener("pointercancel", () => (dragging = false));
+      }
 
       canvasEl.addEventListener("click", (ev: MouseEvent) => {
-        handlePoint(ev.clientX, ev.clientY);
+        if (suppressClick) {
+          suppressClick = false;
+          return;
+        }
+        handlePoint(ev.clientX, ev.clientY, ev.shiftKey);
+      });
+
+      // Tooltip with the error of a failed cell under the pointer
+      canvasEl.addEventListener("mousemove", (ev: MouseEvent) => {
+        const { cx, cy } = cellAt(ev.clientX, ev.clientY);
+        const error = engine.getCellError(cx, cy);
+        const title = error ? `Update failed: ${error}` : "";
+        if (canvasEl.title !== title) canvasEl.title = title;
       });
 
       let lastTouch = 0;
@@ -250,6 +1158,246 @@ const sketch = (p: p5) => {
         },
         { passive: true }
       );
+
+      // Paint: drag across cells, one history entry per stroke
+      let painting = false;
+      const paintAt = (ev: PointerEvent) => {
+        const { cx, cy } = cellAt(ev.clientX, ev.clientY);
+        engine.paintCell(cx, cy, seedValueInput?.value ?? "");
+      };
+      const endStroke = () => {
+        if (!painting) return;
+        painting = false;
+        engine.commitPaint();
+      };
+      canvasEl.addEventListener("pointerdown", (ev: PointerEvent) => {
+        if (tool !== "paint" || ev.shiftKey) return; // shift-click inspects
+        painting = true;
+        canvasEl.setPointerCapture(ev.pointerId);
+        paintAt(ev);
+      });
+      canvasEl.addEventListener("pointermove", (ev: PointerEvent) => {
+        if (painting) paintAt(ev);
+      });
+      canvasEl.addEventListener("pointerup", endStroke);
+      canvasEl.addEventListener("pointercancel", endStroke);
+    }
+
+    // Experiments: export / import files, permalinks, restore on load
+    const experimentStatus = document.getElementById("experimentStatus");
+    const importFileInput = document.getElementById(
+      "importFileInput"
+    ) as HTMLInputElement | null;
+    const showStatus = (msg: string) => {
+      if (experimentStatus) experimentStatus.textContent = msg;
+    };
+    const applyExperiment = (exp: Experiment, label?: string) => {
+      if (!engine.loadExperiment(exp, label)) {
+        showStatus("Wait for pending cells before loading.");
+        return false;
+      }
+      if (promptInput) promptInput.value = exp.prompt;
+      syncTemplateInput();
+      syncCellSchemaInput();
+      // Mirror loaded settings into the controls (change handlers re-read the engine)
+      if (neighborhoodSelect && radiusInput) {
+        neighborhoodSelect.value = exp.neighborhood.kind;
+        radiusInput.value = String(exp.neighborhood.radius);
+        neighborhoodSelect.dispatchEvent(new Event("change"));
+      }
+      if (boundarySelect && edgeValueInput) {
+        boundarySelect.value = exp.boundary.mode;
+        edgeValueInput.value = exp.boundary.edgeValue;
+        boundarySelect.dispatchEvent(new Event("change"));
+      }
+      afterRestore();
+      return true;
+    };
+    document.getElementById("exportBtn")?.addEventListener("click", () => {
+      const exp = engine.toExperiment(promptInput?.value || "");
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadExperiment(exp, `the-one-prompt-${stamp}.json`);
+    });
+    document.getElementById("importBtn")?.addEventListener("click", () => {
+      importFileInput?.click();
+    });
+    importFileInput?.addEventListener("change", async () => {
+      const file = importFileInput.files?.[0];
+      importFileInput.value = ""; // allow re-importing the same file
+      if (!file) return;
+      try {
+        if (applyExperiment(await readExperimentFile(file)))
+          showStatus(`Loaded ${file.name}`);
+      } catch (e) {
+        showStatus(e instanceof Error ? e.message : String(e));
+      }
+    });
+    document.getElementById("shareBtn")?.addEventListener("click", async () => {
+      const url = await encodePermalink(
+        engine.toExperiment(promptInput?.value || "", false)
+      );
+      try {
+        await navigator.clipboard.writeText(url);
+        showStatus("Permalink copied to clipboard.");
+      } catch {
+        window.prompt("Copy this permalink:", url);
+      }
+    });
+    // Media export: PNG of the grid; sprite sheet / GIF / WebM of the recorded
+    // generations up to the history cursor
+    const exportCellSizeInput = document.getElementById(
+      "exportCellSizeInput"
+    ) as HTMLInputElement | null;
+    const exportFrameMsInput = document.getElementById(
+      "exportFrameMsInput"
+    ) as HTMLInputElement | null;
+    const exportOverlayInput = document.getElementById(
+      "exportOverlayInput"
+    ) as HTMLInputElement | null;
+    const mediaExportStatus = document.getElementById("mediaExportStatus");
+    const mediaButtons = [
+      "exportPngBtn",
+      "exportSheetBtn",
+      "exportGifBtn",
+      "exportWebmBtn",
+    ].map((id) => document.getElementById(id) as HTMLButtonElement | null);
+    const [pngBtn, sheetBtn, gifBtn, webmBtn] = mediaButtons;
+    const webmSupported = canRecordWebm();
+    const setMediaBusy = (busy: boolean) =>
+      mediaButtons.forEach((b) => {
+        if (b) b.disabled = busy || (b === webmBtn && !webmSupported);
+      });
+    setMediaBusy(false);
+    if (webmBtn && !webmSupported)
+      webmBtn.title = "This browser cannot record WebM video";
+    const showMediaStatus = (msg: string) => {
+      if (mediaExportStatus) mediaExportStatus.textContent = msg;
+    };
+    const readNumber = (input: HTMLInputElement | null, fallback: number) => {
+      const n = parseInt(input?.value ?? "", 10);
+      if (!input || isNaN(n)) return fallback;
+      const min = Number(input.min);
+      const max = Number(input.max);
+      const clamped = Math.min(max, Math.max(min, n));
+      input.value = String(clamped);
+      return clamped;
+    };
+    const mediaOptions = () => ({
+      cellPx: readNumber(exportCellSizeInput, 64),
+      frameMs: readNumber(exportFrameMsInput, 500),
+      overlay: exportOverlayInput?.checked ?? true,
+      onProgress: (done: number, total: number) =>
+        showMediaStatus(`Frame ${done} / ${total}…`),
+    });
+    const runMediaExport = async (
+      kind: string,
+      ext: string,
+      encode: () => Promise<Blob>
+    ) => {
+      setMediaBusy(true);
+      showMediaStatus(`Rendering ${kind}…`);
+      try {
+        const blob = await encode();
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        downloadBlob(blob, `the-one-prompt-${stamp}.${ext}`);
+        showMediaStatus(`Saved ${kind} (${(blob.size / 1024).toFixed(0)} KB).`);
+      } catch (e) {
+        showMediaStatus(e instanceof Error ? e.message : String(e));
+      } finally {
+        setMediaBusy(false);
+      }
+    };
+    pngBtn?.addEventListener("click", () =>
+      runMediaExport("PNG", "png", () => exportPng(engine, mediaOptions()))
+    );
+    sheetBtn?.addEventListener("click", () =>
+      runMediaExport("sprite sheet", "png", () =>
+        exportSpriteSheet(engine, engine.generationFrames(), mediaOptions())
+      )
+    );
+    gifBtn?.addEventListener("click", () =>
+      runMediaExport("GIF", "gif", () =>
+        exportGif(engine, engine.generationFrames(), mediaOptions())
+      )
+    );
+    webmBtn?.addEventListener("click", () =>
+      runMediaExport("WebM", "webm", () =>
+        exportWebm(engine, engine.generationFrames(), mediaOptions())
+      )
+    );
+
+    // Rule library: built-in and saved rules; loading is one undoable step
+    const ruleSearchInput = document.getElementById(
+      "ruleSearchInput"
+    ) as HTMLInputElement | null;
+    const ruleList = document.getElementById("ruleList");
+    const ruleNameInput = document.getElementById(
+      "ruleNameInput"
+    ) as HTMLInputElement | null;
+    const ruleTagsInput = document.getElementById(
+      "ruleTagsInput"
+    ) as HTMLInputElement | null;
+    const renderRules = () => {
+      if (!ruleList) return;
+      const rules = [...BUILT_IN_RULES, ...loadUserRules()];
+      renderRuleList(
+        ruleList,
+        searchRules(rules, ruleSearchInput?.value || ""),
+        {
+          onLoad: (rule) => {
+            if (isRunning || autoplay.running) return;
+            if (applyExperiment(rule.setup, `Rule: ${rule.name}`))
+              showStatus(`Loaded rule "${rule.name}".`);
+          },
+          onDelete: (rule) => {
+            saveUserRules(loadUserRules().filter((r) => r.name !== rule.name));
+            renderRules();
+          },
+          onTag: (tag) => {
+            if (!ruleSearchInput) return;
+            ruleSearchInput.value = `#${tag}`;
+            renderRules();
+          },
+        }
+      );
+    };
+    ruleSearchInput?.addEventListener("input", renderRules);
+    document.getElementById("saveRuleBtn")?.addEventListener("click", () => {
+      const name = ruleNameInput?.value.trim();
+      if (!name) {
+        ruleNameInput?.focus();
+        return;
+      }
+      const setup = engine.toExperiment(promptInput?.value || "", false);
+      const rule: LibraryRule = {
+        name,
+        description: "",
+        tags: parseTags(ruleTagsInput?.value || ""),
+        setup: { ...setup, generation: 0 },
+      };
+      saveUserRules([...loadUserRules().filter((r) => r.name !== name), rule]);
+      if (ruleNameInput) ruleNameInput.value = "";
+      if (ruleTagsInput) ruleTagsInput.value = "";
+      renderRules();
+      showStatus(`Saved rule "${name}".`);
+    });
+    renderRules();
+
+    // A permalink wins over the autosave; the hash is cleared once applied
+    if (hasPermalink(location.hash)) {
+      decodePermalink(location.hash)
+        .then((exp) => {
+          if (applyExperiment(exp)) showStatus("Loaded from permalink.");
+          history.replaceState(null, "", location.pathname + location.search);
+        })
+        .catch((e) =>
+          showStatus(
+            "Permalink error: " + (e instanceof Error ? e.message : String(e))
+          )
+        );
+    } else {
+      const saved = loadAutosave();
+      if (saved) applyExperiment(saved);
     }
 
     if (canvas) {
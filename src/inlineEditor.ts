@@ -0,0 +1,48 @@
+// Text input positioned over a canvas cell for direct edits.
+// Enter or blur commits, Escape cancels. Only one editor is open at a time.
+
+let active: HTMLInputElement | null = null;
+
+export function closeInlineEditor() {
+  active?.remove();
+  active = null;
+}
+
+export function openInlineEditor(
+  host: HTMLElement, // positioned ancestor of the canvas
+  cellRect: { left: number; top: number; width: number; height: number }, // client coords
+  initial: string,
+  onCommit: (text: string) => void
+) {
+  closeInlineEditor();
+  const hostRect = host.getBoundingClientRect();
+  const input = document.createElement("input");
+  input.type = "text";
+  input.className = "cellEditor";
+  input.value = initial;
+  input.spellcheck = false;
+  input.style.left = cellRect.left - hostRect.left + "px";
+  input.style.top = cellRect.top - hostRect.top + "px";
+  input.style.width = cellRect.width + "px";
+  input.style.height = cellRect.height + "px";
+  host.appendChild(input);
+  active = input;
+
+  let done = false;
+  const finish = (commit: boolean) => {
+    if (done) return;
+    done = true;
+    const text = input.value;
+    if (active === input) closeInlineEditor();
+    else input.remove();
+    if (commit) onCommit(text);
+  };
+  input.addEventListener("keydown", (e) => {
+    e.stopPropagation(); // keep global shortcuts (Ctrl+Z etc.) out of the editor
+    if (e.key === "Enter") finish(true);
+    else if (e.key === "Escape") finish(false);
+  });
+  input.addEventListener("blur", () => finish(true));
+  input.focus();
+  input.select();
+}
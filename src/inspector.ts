@@ -0,0 +1,104 @@
+import { CellProvenance } from "./provenance";
+
+// Floating panel listing a cell's recent model updates (shift-click a cell).
+// Only one inspector is open at a time (Escape closes it before stopping runs).
+
+let active: HTMLElement | null = null;
+
+export function isInspectorOpen() {
+  return active !== null;
+}
+
+export function closeInspector() {
+  active?.remove();
+  active = null;
+}
+
+function row(label: string, value: string): HTMLElement {
+  const div = document.createElement("div");
+  const dt = document.createElement("span");
+  dt.className = "inspectorKey";
+  dt.textContent = label;
+  const dd = document.createElement("span");
+  dd.textContent = value;
+  div.append(dt, dd);
+  return div;
+}
+
+function block(summary: string, text: string, open = false): HTMLElement {
+  const details = document.createElement("details");
+  details.open = open;
+  const s = document.createElement("summary");
+  s.textContent = summary;
+  const pre = document.createElement("pre");
+  pre.textContent = text || "(empty)";
+  details.append(s, pre);
+  return details;
+}
+
+function renderEntry(entry: CellProvenance, latest: boolean): HTMLElement {
+  const section = document.createElement("section");
+  section.className = entry.error ? "failed" : "";
+  const title = document.createElement("h3");
+  title.textContent = `${latest ? "Latest" : "Previous"} · ${new Date(
+    entry.timestamp
+  ).toLocaleTimeString()}`;
+  section.appendChild(title);
+  if (entry.error) section.appendChild(row("Error", entry.error));
+  else section.appendChild(row("Value", JSON.stringify(entry.value ?? "")));
+  const u = entry.usage;
+  const via = [
+    entry.cached ? "cache" : "",
+    entry.batchSize ? `batch of ${entry.batchSize}` : "",
+  ].filter(Boolean);
+  section.append(
+    row("Model", entry.model + (via.length ? ` (${via.join(", ")})` : "")),
+    row(
+      "Latency",
+      `${Math.round(entry.latencyMs)} ms · ${entry.attempts} attempt${
+        entry.attempts === 1 ? "" : "s"
+      }`
+    ),
+    row(
+      "Tokens",
+      `${u.prompt} in + ${u.cached} cached + ${u.completion} out = ${u.total}`
+    ),
+    row(
+      "Cost",
+      u.unpriced ? "unknown (no pricing for model)" : `$${u.cost.toFixed(6)}`
+    ),
+    block("Prompt", entry.prompt, latest),
+    block("Raw output", entry.raw, latest)
+  );
+  return section;
+}
+
+export function openInspector(
+  host: HTMLElement,
+  cx: number,
+  cy: number,
+  entries: CellProvenance[],
+  current: string
+) {
+  closeInspector();
+  const panel = document.createElement("aside");
+  panel.className = "inspector";
+  const head = document.createElement("header");
+  const title = document.createElement("h2");
+  title.textContent = `Cell (${cx},${cy})`;
+  const close = document.createElement("button");
+  close.type = "button";
+  close.textContent = "Close";
+  close.addEventListener("click", closeInspector);
+  head.append(title, close);
+  panel.appendChild(head);
+  panel.appendChild(row("Current", JSON.stringify(current)));
+  if (!entries.length) {
+    const empty = document.createElement("p");
+    empty.textContent = "No model updates recorded for this cell yet.";
+    panel.appendChild(empty);
+  }
+  entries.forEach((e, i) => panel.appendChild(renderEntry(e, i === 0)));
+  host.appendChild(panel);
+  active = panel;
+}
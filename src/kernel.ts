@@ -1,43 +1,228 @@
-// Kernel now delegates cell evolution to OpenAI based on a user-provided prompt.
-// A Cell only has a text field. '1' means alive, anything else treated as dead (semantic left to the prompt).
+// Kernel now delegates cell evolution to the selected model provider based on a user-provided prompt.
+// A Cell's value is its text: plain text, or a JSON object of fields when a cell schema is declared (cellSchema.ts).
 
 import { z } from "zod";
-import { OpenAIHelper } from "./openaiHelper";
+import { LLMProvider, StructuredResponse } from "./llmProvider";
+import { OFF_GRID_MARK } from "./boundary";
+import {
+  CellSchemaConfig,
+  CellFields,
+  EMPTY_CELL_SCHEMA,
+  fieldsSchema,
+  formatCellFields,
+  hasFields,
+  schemaInstructions,
+} from "./cellSchema";
 // Allow importing markdown as a raw string (webpack asset/source)
 // @ts-ignore - handled by webpack asset/source rule
 import cellPrompt from "./cellPrompt.md";
+// @ts-ignore - handled by webpack asset/source rule
+import batchPrompt from "./batchPrompt.md";
+
+export type CellStatus = "ok" | "error" | "pending";
 
 export interface Cell {
-  text: string;
+  text: string; // with a cell schema: JSON object of the fields
+  status?: CellStatus; // absent = never evaluated (treated as ok)
+  error?: string; // last update failed after retries; text keeps the previous value
 }
 
 const CellResultSchema = z.object({ resultValue: z.string() });
 
-// Asynchronously obtain the next value for a cell by sending context to the model.
-// NOTE: Grid is toroidally wrapped, so neighbors are never null.
-export async function kernel(
-  helper: OpenAIHelper,
+// Batched answer: one entry per requested cell, keyed by grid coordinates.
+// Entries are validated one by one so a single bad entry doesn't sink the batch.
+const BatchResultSchema = z.object({ results: z.array(z.unknown()) });
+const BatchEntrySchema = z.object({
+  x: z.number().int(),
+  y: z.number().int(),
+  resultValue: z.string(),
+});
+// What the model is asked for (native structured outputs need typed items)
+const BatchResponseSchema = z.object({ results: z.array(BatchEntrySchema) });
+
+interface ResultSchemas {
+  cell: z.ZodTypeAny;
+  cellResponse: z.ZodTypeAny;
+  batchEntry: z.ZodTypeAny;
+  batchResponse: z.ZodTypeAny;
+}
+
+// Answers are validated with `cell` / `batchEntry`; the *Response variants are
+// sent to the model. With a cell schema resultValue is the fields object.
+function resultSchemas(cellSchema: CellSchemaConfig): ResultSchemas {
+  if (!hasFields(cellSchema))
+    return {
+      cell: CellResultSchema,
+      cellResponse: CellResultSchema,
+      batchEntry: BatchEntrySchema,
+      batchResponse: BatchResponseSchema,
+    };
+  const value = fieldsSchema(cellSchema);
+  const response = fieldsSchema(cellSchema, true);
+  return {
+    cell: z.object({ resultValue: value }),
+    cellResponse: z.object({ resultValue: response }),
+    batchEntry: BatchEntrySchema.extend({ resultValue: value }),
+    batchResponse: z.object({
+      results: z.array(BatchEntrySchema.extend({ resultValue: response })),
+    }),
+  };
+}
+
+// Cell text for a validated result value
+function resultText(cellSchema: CellSchemaConfig, value: unknown): string {
+  return hasFields(cellSchema)
+    ? formatCellFields(cellSchema, value as CellFields)
+    : (value as string);
+}
+
+function withSchemaInstructions(prompt: string, cellSchema: CellSchemaConfig) {
+  return hasFields(cellSchema)
+    ? `${prompt}\n\n${schemaInstructions(cellSchema)}`
+    : prompt;
+}
+
+// Bundled template (cellPrompt.md); experiments may carry their own
+export const DEFAULT_TEMPLATE: string = cellPrompt;
+// Wrapper for batched requests (batchPrompt.md); {{CELLS}} holds the cell
+// blocks, each the cell's own prompt from the active template
+export const BATCH_TEMPLATE: string = batchPrompt;
+
+export interface Neighbor {
+  label: string; // see offsetLabel() in neighborhood.ts
+  cell: Cell;
+  offGrid?: boolean; // beyond a non-toroidal edge (see boundary.ts)
+}
+
+// Markdown bullet list substituted for {{NEIGHBORS}}
+export function formatNeighborList(neighbors: Neighbor[]): string {
+  return neighbors
+    .map((n) => `- ${n.label}: ${n.cell.text}${n.offGrid ? OFF_GRID_MARK : ""}`)
+    .join("\n");
+}
+
+// Per-neighbor placeholder name: "top-left" → TOP_LEFT
+export function placeholderToken(label: string): string {
+  return label.toUpperCase().replace(/-/g, "_");
+}
+
+function offGridLabels(neighbors: Neighbor[]): string {
+  return (
+    neighbors
+      .filter((n) => n.offGrid)
+      .map((n) => n.label)
+      .join(", ") || "none"
+  );
+}
+
+// Fill template placeholders; each neighbor is also reachable on its own,
+// e.g. {{TOP_LEFT}} or {{RIGHT2}}. Field descriptions follow when a cell schema is set.
+export function composeCellPrompt(
+  template: string,
   userPrompt: string,
-  top: Cell,
-  bottom: Cell,
-  left: Cell,
-  right: Cell,
-  current: Cell
-): Promise<string> {
-  // Fill template placeholders
-  const composed = cellPrompt
+  neighbors: Neighbor[],
+  current: Cell,
+  cellSchema: CellSchemaConfig = EMPTY_CELL_SCHEMA
+): string {
+  let composed = template
     .replace(/{{USER_PROMPT}}/g, userPrompt)
     .replace(/{{CURRENT}}/g, current.text)
-    .replace(/{{TOP}}/g, top.text)
-    .replace(/{{BOTTOM}}/g, bottom.text)
-    .replace(/{{LEFT}}/g, left.text)
-    .replace(/{{RIGHT}}/g, right.text);
-  const parsed = await helper.getStructuredWithZod(
-    composed,
-    CellResultSchema,
-    "cell_result"
+    .replace(/{{NEIGHBORS}}/g, formatNeighborList(neighbors))
+    .replace(/{{OFF_GRID}}/g, offGridLabels(neighbors));
+  for (const n of neighbors) {
+    const token = placeholderToken(n.label);
+    composed = composed.split(`{{${token}}}`).join(n.cell.text);
+  }
+  return withSchemaInstructions(composed, cellSchema);
+}
+
+// Asynchronously obtain the next value for a cell by sending context to the model.
+// NOTE: Off-grid positions are resolved by the engine's boundary mode, so neighbors are never null.
+export async function kernel(
+  helper: LLMProvider,
+  userPrompt: string,
+  neighbors: Neighbor[],
+  current: Cell,
+  template: string = DEFAULT_TEMPLATE,
+  signal?: AbortSignal,
+  cellSchema: CellSchemaConfig = EMPTY_CELL_SCHEMA
+): Promise<StructuredResponse<string>> {
+  const prompt = composeCellPrompt(
+    template,
+    userPrompt,
+    neighbors,
+    current,
+    cellSchema
   );
-  return parsed.resultValue;
+  const schemas = resultSchemas(cellSchema);
+  const parsed = await helper.getStructured({
+    prompt,
+    schema: schemas.cell,
+    responseSchema: schemas.cellResponse,
+    name: "cell_result",
+    signal,
+  });
+  return {
+    ...parsed,
+    value: resultText(cellSchema, parsed.value.resultValue),
+  };
+}
+
+// --- Batched evaluation ---
+export interface BatchCell {
+  x: number;
+  y: number;
+  current: Cell;
+  neighbors: Neighbor[];
+}
+
+// Every block is composeCellPrompt() for that cell, so templates and their
+// per-neighbor placeholders apply as in single requests; field descriptions
+// follow once, after the results shape.
+export function composeBatchPrompt(
+  template: string,
+  userPrompt: string,
+  cells: BatchCell[],
+  cellSchema: CellSchemaConfig = EMPTY_CELL_SCHEMA
+): string {
+  const blocks = cells.map((c) =>
+    [
+      `### Cell (${c.x},${c.y})`, // parsed back by mockProvider batchAnswer()
+      composeCellPrompt(template, userPrompt, c.neighbors, c.current),
+    ].join("\n")
+  );
+  const prompt = BATCH_TEMPLATE.split("{{CELLS}}").join(blocks.join("\n\n"));
+  return withSchemaInstructions(prompt, cellSchema);
+}
+
+// One request for many cells. Values are keyed "x,y"; cells the model skipped,
+// duplicated or answered malformed are simply absent (callers fall back per cell).
+export async function batchKernel(
+  helper: LLMProvider,
+  userPrompt: string,
+  cells: BatchCell[],
+  template: string = DEFAULT_TEMPLATE,
+  signal?: AbortSignal,
+  cellSchema: CellSchemaConfig = EMPTY_CELL_SCHEMA
+): Promise<StructuredResponse<Map<string, string>>> {
+  const schemas = resultSchemas(cellSchema);
+  const parsed = await helper.getStructured({
+    prompt: composeBatchPrompt(template, userPrompt, cells, cellSchema),
+    schema: BatchResultSchema,
+    responseSchema: schemas.batchResponse,
+    name: "cell_batch",
+    signal,
+  });
+  const wanted = new Set(cells.map((c) => `${c.x},${c.y}`));
+  const values = new Map<string, string>();
+  for (const item of parsed.value.results) {
+    const entry = schemas.batchEntry.safeParse(item);
+    if (!entry.success) continue;
+    const key = `${entry.data.x},${entry.data.y}`;
+    if (wanted.has(key))
+      values.set(key, resultText(cellSchema, entry.data.resultValue));
+  }
+  return { ...parsed, value: values };
 }
 
 export {}; // ensure this file is treated as a module
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// Provider abstraction: a structured-JSON request goes in, a zod-validated
+// value plus the usage it cost comes out. Engine & kernel only see this.
+
+export type ProviderKind = "openai" | "compatible" | "mock";
+
+export interface TokenUsage {
+  prompt: number; // non-cached input tokens
+  cached: number;
+  completion: number;
+  total: number;
+  cost: number; // USD
+  unpriced?: boolean; // model has no pricing entry: true cost unknown (counted as 0)
+}
+
+export interface StructuredRequest<T extends z.ZodTypeAny> {
+  prompt: string;
+  schema: T;
+  name: string;
+  model?: string; // defaults to the provider's configured model
+  signal?: AbortSignal; // aborts the in-flight request
+  // Sent to the model as its response format when stricter than `schema`
+  // (e.g. `schema` tolerates bad entries that the model shouldn't produce)
+  responseSchema?: z.ZodTypeAny;
+}
+
+export interface StructuredResponse<T> {
+  value: T;
+  raw: string; // unparsed model content
+  model: string;
+  usage: TokenUsage; // usage of this request only
+  cached?: boolean; // answered by the response cache (usage is zero)
+}
+
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  getStructured<T extends z.ZodTypeAny>(
+    request: StructuredRequest<T>
+  ): Promise<StructuredResponse<z.infer<T>>>;
+  // Convenience wrapper returning only the validated value
+  getStructuredWithZod<T extends z.ZodTypeAny>(
+    userText: string,
+    schema: T,
+    name: string,
+    model?: string
+  ): Promise<z.infer<T>>;
+  getLastUsage(): TokenUsage;
+  getCumulativeUsage(): TokenUsage;
+}
+
+// Shared last/cumulative token + cost bookkeeping for providers.
+export class UsageMeter {
+  private last: TokenUsage = emptyUsage();
+  private cumulative: TokenUsage = emptyUsage();
+
+  // `cost` null: tokens were spent on a model without pricing
+  record(
+    prompt: number,
+    cached: number,
+    completion: number,
+    cost: number | null
+  ) {
+    const total = prompt + cached + completion;
+    this.last = {
+      prompt,
+      cached,
+      completion,
+      total,
+      cost: cost ?? 0,
+      ...(cost === null && total > 0 ? { unpriced: true } : {}),
+    };
+    this.cumulative = addUsage(this.cumulative, this.last);
+    return { ...this.last };
+  }
+
+  getLast(): TokenUsage {
+    return { ...this.last };
+  }
+
+  getCumulative(): TokenUsage {
+    return { ...this.cumulative };
+  }
+}
+
+export function emptyUsage(): TokenUsage {
+  return { prompt: 0, cached: 0, completion: 0, total: 0, cost: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    prompt: a.prompt + b.prompt,
+    cached: a.cached + b.cached,
+    completion: a.completion + b.completion,
+    total: a.total + b.total,
+    cost: a.cost + b.cost,
+    ...(a.unpriced || b.unpriced ? { unpriced: true } : {}),
+  };
+}
+
+// The model answered, but not with parseable JSON (worth retrying)
+export class ModelOutputError extends Error {
+  readonly raw: string;
+  constructor(message: string, raw: string) {
+    super(message);
+    this.name = "ModelOutputError";
+    this.raw = raw;
+  }
+}
+
+// A failed request may still have been billed (an unparseable answer, a failed
+// repair, a refusal): providers attach that usage to the error they throw.
+export function withUsage(e: unknown, usage: TokenUsage): unknown {
+  if (usage.total > 0 && e !== null && typeof e === "object")
+    (e as { usage?: TokenUsage }).usage = usage;
+  return e;
+}
+
+export function failureUsage(e: unknown): TokenUsage | null {
+  return (e as { usage?: TokenUsage } | null)?.usage ?? null;
+}
+
+// Extract JSON substring – basic heuristic shared by text-completion providers.
+export function extractJson(msg: string): unknown {
+  const firstBrace = msg.indexOf("{");
+  const lastBrace = msg.lastIndexOf("}");
+  if (firstBrace === -1 || lastBrace === -1 || lastBrace < firstBrace)
+    throw new ModelOutputError("No JSON object found in model response", msg);
+  const jsonSlice = msg.slice(firstBrace, lastBrace + 1);
+  try {
+    return JSON.parse(jsonSlice);
+  } catch (e) {
+    throw new ModelOutputError(
+      "Failed to parse JSON: " + (e as Error).message + "\nRaw: " + msg,
+      msg
+    );
+  }
+}
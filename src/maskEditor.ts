@@ -0,0 +1,43 @@
+import { Offset } from "./neighborhood";
+
+// Clickable (2r+1)x(2r+1) grid for drawing a custom neighborhood mask.
+// The center cell is the cell being updated and can't be toggled.
+export function renderMaskEditor(
+  container: HTMLElement,
+  radius: number,
+  mask: Offset[],
+  onChange: (mask: Offset[]) => void
+) {
+  const side = radius * 2 + 1;
+  const active = new Set(mask.map(({ dx, dy }) => `${dx},${dy}`));
+  container.innerHTML = "";
+  container.style.gridTemplateColumns = `repeat(${side}, 1fr)`;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const key = `${dx},${dy}`;
+      const btn = document.createElement("button");
+      btn.type = "button";
+      btn.className = "maskCell";
+      if (dx === 0 && dy === 0) {
+        btn.classList.add("self");
+        btn.disabled = true;
+        btn.title = "Cell being updated";
+      } else {
+        btn.title = `dx=${dx}, dy=${dy}`;
+        btn.classList.toggle("on", active.has(key));
+        btn.addEventListener("click", () => {
+          if (active.has(key)) active.delete(key);
+          else active.add(key);
+          btn.classList.toggle("on", active.has(key));
+          onChange(
+            [...active].map((k) => {
+              const [x, y] = k.split(",").map(Number);
+              return { dx: x, dy: y };
+            })
+          );
+        });
+      }
+      container.appendChild(btn);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { CELL_SIZE } from "./constants";
+import { Viewport } from "./viewport";
+
+// Overview of the whole grid with the visible region framed. Cells are drawn
+// as flat swatches: their color value, grey for text, red for failed updates.
+
+export const MINIMAP_SIZE = 140; // px, longer side
+
+export type MinimapCell = "empty" | "text" | "error" | { color: string };
+
+export function renderMinimap(
+  canvas: HTMLCanvasElement,
+  cols: number,
+  rows: number,
+  cellAt: (x: number, y: number) => MinimapCell,
+  view: Viewport
+) {
+  const px = MINIMAP_SIZE / Math.max(cols, rows);
+  const width = Math.ceil(cols * px);
+  const height = Math.ceil(rows * px);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, width, height);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const cell = cellAt(x, y);
+      if (cell === "empty") continue;
+      ctx.fillStyle =
+        cell === "text" ? "#9aa7b4" : cell === "error" ? "#ff4d61" : cell.color;
+      ctx.fillRect(x * px, y * px, Math.ceil(px), Math.ceil(px));
+    }
+  }
+  const frame = view.visibleWorld();
+  const k = px / CELL_SIZE;
+  ctx.strokeStyle = "#2f81f7";
+  ctx.lineWidth = 2;
+  ctx.strokeRect(
+    frame.x * k + 1,
+    frame.y * k + 1,
+    frame.width * k - 2,
+    frame.height * k - 2
+  );
+}
+
+// World point under a minimap pointer position
+export function minimapToWorld(
+  canvas: HTMLCanvasElement,
+  cols: number,
+  rows: number,
+  clientX: number,
+  clientY: number
+) {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: ((clientX - rect.left) / rect.width) * cols * CELL_SIZE,
+    y: ((clientY - rect.top) / rect.height) * rows * CELL_SIZE,
+  };
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import {
+  LLMProvider,
+  ProviderKind,
+  StructuredRequest,
+  StructuredResponse,
+  TokenUsage,
+  UsageMeter,
+} from "./llmProvider";
+import { OFF_GRID_MARK } from "./boundary";
+import { abortableDelay } from "./retry";
+
+// Offline, deterministic stand-in for a model. The same prompt always yields the
+// same answer, which makes it suitable for demos without a key and for tests.
+
+export interface MockContext {
+  prompt: string; // fully composed prompt
+  name: string; // schema name from the request
+  neighbors: Record<string, string>; // parsed "- label: value" lines
+}
+
+// Returns the JSON object the "model" answers with (validated by the caller's schema)
+export type MockRule = (ctx: MockContext) => unknown;
+
+const MOCK_PALETTE = [
+  "#e63946",
+  "#f4a261",
+  "#e9c46a",
+  "#2a9d8f",
+  "#457b9d",
+  "#1d3557",
+  "#8338ec",
+  "#06d6a0",
+];
+
+// FNV-1a – small stable string hash
+export function hashString(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function parseNeighborLines(prompt: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const line of prompt.split("\n")) {
+    const m = /^\s*-\s*([\w-]+):\s?(.*)$/.exec(line);
+    if (m) out[m[1]] = m[2].replace(OFF_GRID_MARK, "").trim();
+  }
+  return out;
+}
+
+// Default rule: majority of non-empty neighbor values (ties broken by prompt hash);
+// with no populated neighbors pick a palette color from the prompt hash.
+export const majorityRule: MockRule = ({ prompt, neighbors }) => {
+  const h = hashString(prompt);
+  const counts = new Map<string, number>();
+  for (const v of Object.values(neighbors)) {
+    if (!v) continue;
+    counts.set(v, (counts.get(v) || 0) + 1);
+  }
+  if (!counts.size)
+    return { resultValue: MOCK_PALETTE[h % MOCK_PALETTE.length] };
+  const best = Math.max(...counts.values());
+  const tied = [...counts.entries()]
+    .filter(([, n]) => n === best)
+    .map(([v]) => v)
+    .sort();
+  return { resultValue: tied[h % tied.length] };
+};
+
+// Batched requests ("cell_batch", see batchKernel): apply the single-cell rule
+// to every "### Cell (x,y)" block and answer with the keyed results array.
+function batchAnswer(rule: MockRule, prompt: string): unknown {
+  const blocks = prompt.split(/^### Cell /m).slice(1);
+  const results = [];
+  for (const block of blocks) {
+    const m = /^\((-?\d+),(-?\d+)\)/.exec(block);
+    if (!m) continue;
+    const answer = rule({
+      prompt: block,
+      name: "cell_result",
+      neighbors: parseNeighborLines(block),
+    }) as { resultValue?: unknown };
+    results.push({ x: +m[1], y: +m[2], resultValue: answer?.resultValue });
+  }
+  return { results };
+}
+
+export class MockProvider implements LLMProvider {
+  readonly kind: ProviderKind = "mock";
+  readonly model: string;
+  private rule: MockRule;
+  private delayMs: number;
+  private usage = new UsageMeter();
+
+  constructor(rule: MockRule = majorityRule, delayMs = 0, model = "mock") {
+    this.rule = rule;
+    this.delayMs = Math.max(0, delayMs);
+    this.model = model;
+  }
+
+  getLastUsage(): TokenUsage {
+    return this.usage.getLast();
+  }
+
+  getCumulativeUsage(): TokenUsage {
+    return this.usage.getCumulative();
+  }
+
+  async getStructuredWithZod<T extends z.ZodTypeAny>(
+    userText: string,
+    schema: T,
+    name: string,
+    model = this.model
+  ): Promise<z.infer<T>> {
+    const res = await this.getStructured({
+      prompt: userText,
+      schema,
+      name,
+      model,
+    });
+    return res.value;
+  }
+
+  async getStructured<T extends z.ZodTypeAny>(
+    request: StructuredRequest<T>
+  ): Promise<StructuredResponse<z.infer<T>>> {
+    const { prompt, schema, name, signal } = request;
+    if (this.delayMs) await abortableDelay(this.delayMs, signal);
+    signal?.throwIfAborted();
+    const answer =
+      name === "cell_batch"
+        ? batchAnswer(this.rule, prompt)
+        : this.rule({ prompt, name, neighbors: parseNeighborLines(prompt) });
+    const raw = JSON.stringify(answer);
+    // Rough token estimate (~4 chars per token); local answers are free
+    const usage = this.usage.record(
+      Math.ceil(prompt.length / 4),
+      0,
+      Math.ceil(raw.length / 4),
+      0
+    );
+    return {
+      value: schema.parse(answer) as z.infer<T>,
+      raw,
+      model: request.model || this.model,
+      usage,
+    };
+  }
+}
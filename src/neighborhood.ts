@@ -0,0 +1,63 @@
+// Neighborhood shapes: which relative offsets feed a cell's prompt and how each is labelled.
+
+export type NeighborhoodKind = "vonNeumann" | "moore" | "custom";
+
+export interface Offset {
+  dx: number; // +x → right
+  dy: number; // +y → down
+}
+
+export interface NeighborOffset extends Offset {
+  label: string; // e.g. "top", "top-left", "right2"
+}
+
+export interface NeighborhoodConfig {
+  kind: NeighborhoodKind;
+  radius: number; // extent for vonNeumann / moore (and the custom mask editor)
+  mask: Offset[]; // only used by "custom"
+}
+
+export const MAX_NEIGHBORHOOD_RADIUS = 3;
+
+export const DEFAULT_NEIGHBORHOOD: NeighborhoodConfig = {
+  kind: "vonNeumann",
+  radius: 1,
+  mask: [],
+};
+
+// Human-readable label; unit steps read "top-left", longer ones "top2-right".
+export function offsetLabel(dx: number, dy: number): string {
+  const part = (dir: string, n: number) => (n > 1 ? `${dir}${n}` : dir);
+  const parts: string[] = [];
+  if (dy < 0) parts.push(part("top", -dy));
+  if (dy > 0) parts.push(part("bottom", dy));
+  if (dx < 0) parts.push(part("left", -dx));
+  if (dx > 0) parts.push(part("right", dx));
+  return parts.join("-") || "self";
+}
+
+// Offsets in reading order (row by row, left to right), excluding the cell itself.
+export function neighborOffsets(config: NeighborhoodConfig): NeighborOffset[] {
+  const r = Math.max(1, Math.min(MAX_NEIGHBORHOOD_RADIUS, config.radius | 0));
+  let offsets: Offset[] = [];
+  if (config.kind === "custom") {
+    const seen = new Set<string>();
+    offsets = config.mask.filter(({ dx, dy }) => {
+      const k = `${dx},${dy}`;
+      if ((dx === 0 && dy === 0) || seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    });
+    offsets.sort((a, b) => a.dy - b.dy || a.dx - b.dx);
+  } else {
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        // Moore: full square; von Neumann: Manhattan ball
+        if (config.kind === "moore" || Math.abs(dx) + Math.abs(dy) <= r)
+          offsets.push({ dx, dy });
+      }
+    }
+  }
+  return offsets.map(({ dx, dy }) => ({ dx, dy, label: offsetLabel(dx, dy) }));
+}
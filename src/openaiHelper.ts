@@ -1,38 +1,73 @@
 import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
 import { z } from "zod";
-import { getObfuscatedString } from "./constants";
-
-// Pricing per 1M tokens (STANDARD tier) for text models we might use.
-// Only include models likely relevant; extend as needed.
-interface ModelPricing {
-  input: number;
-  cached?: number;
-  output: number;
+import { getObfuscatedString, DEFAULT_MODEL } from "./constants";
+import {
+  LLMProvider,
+  ProviderKind,
+  StructuredRequest,
+  StructuredResponse,
+  TokenUsage,
+  UsageMeter,
+  ModelOutputError,
+  addUsage,
+  emptyUsage,
+  extractJson,
+  withUsage,
+} from "./llmProvider";
+import { computeCost } from "./pricing";
+
+// Model families accepting response_format { type: "json_schema" } (structured outputs)
+const JSON_SCHEMA_MODELS = /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-5|o1|o3|o4)/;
+
+type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+type ResponseFormat = ReturnType<typeof zodResponseFormat>;
+
+// Derive the strict JSON-schema response format; null when the schema can't be
+// expressed (non-object root, refinements) – the prompt-only heuristic is used then.
+function responseFormat(
+  schema: z.ZodTypeAny,
+  name: string
+): ResponseFormat | null {
+  try {
+    return schema instanceof z.ZodObject
+      ? zodResponseFormat(schema, name.replace(/[^\w-]/g, "_"))
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// 400 complaining about the response format: the model/server lacks structured outputs
+function isFormatRejected(e: unknown): boolean {
+  const err = e as { status?: unknown; message?: unknown } | null;
+  return (
+    err?.status === 400 &&
+    /response_format|json_schema|structured/i.test(String(err.message))
+  );
+}
+
+const SYSTEM_PROMPT =
+  "Return ONLY valid JSON for the requested structure. No prose.";
+
+// Follow-up sent once when the reply doesn't parse or validate
+function repairPrompt(e: unknown): string {
+  const detail = (e instanceof Error ? e.message : String(e)).slice(0, 600);
+  return `Your reply could not be used: ${detail}\nReply again with ONLY the corrected JSON for the requested structure.`;
 }
-const STANDARD_PRICING: Record<string, ModelPricing> = {
-  "gpt-4o-mini": { input: 0.15, cached: 0.075, output: 0.6 },
-  "gpt-4o": { input: 2.5, cached: 1.25, output: 10.0 },
-  "gpt-4.1": { input: 2.0, cached: 0.5, output: 8.0 },
-  "gpt-4.1-mini": { input: 0.4, cached: 0.1, output: 1.6 },
-  "gpt-4.1-nano": { input: 0.1, cached: 0.025, output: 0.4 },
-  "o4-mini": { input: 1.1, cached: 0.275, output: 4.4 },
-  o3: { input: 2.0, cached: 0.5, output: 8.0 },
-};
 
 // Minimal helper: send a prompt, expect JSON, validate with Zod + track token usage and cost.
-export class OpenAIHelper {
-  private client: OpenAI;
+// Uses native structured outputs when the model supports them, otherwise extracts
+// JSON from free-form text; an invalid reply gets one repair round-trip.
+export class OpenAIHelper implements LLMProvider {
+  readonly kind: ProviderKind = "openai";
+  readonly model: string;
+  protected client: OpenAI;
   private debug = false;
-  private lastPromptTokens = 0;
-  private lastCachedPromptTokens = 0;
-  private lastCompletionTokens = 0;
-  private cumulativePromptTokens = 0;
-  private cumulativeCachedPromptTokens = 0;
-  private cumulativeCompletionTokens = 0;
-  private cumulativeCost = 0; // USD
-  private lastCost = 0; // USD
-
-  constructor(apiKey?: string) {
+  private usage = new UsageMeter();
+  protected formatRejected = new Set<string>(); // models that refused json_schema
+
+  constructor(apiKey?: string, model = DEFAULT_MODEL) {
     const userProvided = apiKey?.trim();
     const stored =
       typeof window !== "undefined"
@@ -41,115 +76,176 @@ export class OpenAIHelper {
         : "";
     const fallback = getObfuscatedString();
     const key = userProvided || stored || fallback;
+    this.model = model;
     this.client = new OpenAI({
       apiKey: key || "",
       dangerouslyAllowBrowser: true,
+      maxRetries: 0, // Engine retries with its own backoff (retry.ts)
     });
   }
 
-  getLastUsage() {
-    return {
-      prompt: this.lastPromptTokens,
-      cached: this.lastCachedPromptTokens,
-      completion: this.lastCompletionTokens,
-      total:
-        this.lastPromptTokens +
-        this.lastCachedPromptTokens +
-        this.lastCompletionTokens,
-      cost: this.lastCost,
-    };
+  getLastUsage(): TokenUsage {
+    return this.usage.getLast();
   }
 
-  getCumulativeUsage() {
-    return {
-      prompt: this.cumulativePromptTokens,
-      cached: this.cumulativeCachedPromptTokens,
-      completion: this.cumulativeCompletionTokens,
-      total:
-        this.cumulativePromptTokens +
-        this.cumulativeCachedPromptTokens +
-        this.cumulativeCompletionTokens,
-      cost: this.cumulativeCost,
-    };
+  getCumulativeUsage(): TokenUsage {
+    return this.usage.getCumulative();
   }
 
-  private computeCost(
-    model: string,
-    prompt: number,
-    cached: number,
-    completion: number
-  ): number {
-    const pricing = STANDARD_PRICING[model];
-    if (!pricing) return 0;
-    const i = (prompt / 1_000_000) * pricing.input;
-    const c =
-      pricing.cached != null ? (cached / 1_000_000) * pricing.cached : 0;
-    const o = (completion / 1_000_000) * pricing.output;
-    return i + c + o;
+  protected supportsJsonSchema(model: string): boolean {
+    return !this.formatRejected.has(model) && JSON_SCHEMA_MODELS.test(model);
   }
 
   async getStructuredWithZod<T extends z.ZodTypeAny>(
     userText: string,
     schema: T,
-    _name: string, // compatibility placeholder
-    model = "gpt-4o-mini"
+    name: string,
+    model = this.model
   ): Promise<z.infer<T>> {
-    const system =
-      "Return ONLY valid JSON for the requested structure. No prose.";
-    const completion = await this.client.chat.completions.create({
+    const res = await this.getStructured({
+      prompt: userText,
+      schema,
+      name,
       model,
-      messages: [
-        { role: "system", content: system },
-        { role: "user", content: userText },
-      ],
-    } as any);
+    });
+    return res.value;
+  }
+
+  // Failures carry the usage of every completion made before them
+  async getStructured<T extends z.ZodTypeAny>(
+    request: StructuredRequest<T>
+  ): Promise<StructuredResponse<z.infer<T>>> {
+    const spent: TokenUsage[] = [];
+    try {
+      return await this.structured(request, spent);
+    } catch (e) {
+      throw withUsage(e, spent.reduce(addUsage, emptyUsage()));
+    }
+  }
+
+  private async structured<T extends z.ZodTypeAny>(
+    request: StructuredRequest<T>,
+    spent: TokenUsage[]
+  ): Promise<StructuredResponse<z.infer<T>>> {
+    const { prompt: userText, schema, name, signal } = request;
+    const model = request.model || this.model;
+    let format = this.supportsJsonSchema(model)
+      ? responseFormat(request.responseSchema ?? schema, name)
+      : null;
+    const messages: ChatMessage[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: userText },
+    ];
+    let reply: { content: string; usage: TokenUsage };
+    try {
+      reply = await this.complete(model, messages, format, signal, spent);
+    } catch (e) {
+      if (!format || !isFormatRejected(e)) throw e;
+      // Remember and fall back to the prompt-only heuristic for this model
+      this.formatRejected.add(model);
+      format = null;
+      reply = await this.complete(model, messages, null, signal, spent);
+    }
+
+    try {
+      return {
+        value: schema.parse(extractJson(reply.content)) as z.infer<T>,
+        raw: reply.content,
+        model,
+        usage: reply.usage,
+      };
+    } catch (e) {
+      if (!(e instanceof ModelOutputError || e instanceof z.ZodError)) throw e;
+      if (this.debug) console.log("[OpenAIHelper] Repairing reply", e);
+      // Single repair round-trip: show the model its reply and what was wrong
+      const repair = await this.complete(
+        model,
+        [
+          ...messages,
+          { role: "assistant", content: reply.content },
+          { role: "user", content: repairPrompt(e) },
+        ],
+        format,
+        signal,
+        spent
+      );
+      return {
+        value: schema.parse(extractJson(repair.content)) as z.infer<T>,
+        raw: repair.content,
+        model,
+        usage: addUsage(reply.usage, repair.usage),
+      };
+    }
+  }
+
+  // One chat completion; records its usage (also into `spent`) and returns the
+  // message content.
+  private async complete(
+    model: string,
+    messages: ChatMessage[],
+    format: ResponseFormat | null,
+    signal: AbortSignal | undefined,
+    spent: TokenUsage[]
+  ): Promise<{ content: string; usage: TokenUsage }> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model,
+        messages,
+        ...(format ? { response_format: format } : {}),
+      } as any,
+      { signal }
+    );
 
     const usage: any = (completion as any).usage || {};
     const promptTokens = usage.prompt_tokens ?? 0;
     const completionTokens = usage.completion_tokens ?? 0;
     const cachedTokens = usage.prompt_tokens_details?.cached_tokens ?? 0;
-    this.lastPromptTokens = promptTokens - cachedTokens; // non-cached input tokens
-    this.lastCachedPromptTokens = cachedTokens;
-    this.lastCompletionTokens = completionTokens;
-    this.cumulativePromptTokens += promptTokens - cachedTokens;
-    this.cumulativeCachedPromptTokens += cachedTokens;
-    this.cumulativeCompletionTokens += completionTokens;
-
-    this.lastCost = this.computeCost(
-      model,
-      this.lastPromptTokens,
-      this.lastCachedPromptTokens,
-      this.lastCompletionTokens
+    const nonCached = promptTokens - cachedTokens; // non-cached input tokens
+    // null for models missing from the pricing table (reported as unpriced)
+    const cost = computeCost(model, nonCached, cachedTokens, completionTokens);
+    const last = this.usage.record(
+      nonCached,
+      cachedTokens,
+      completionTokens,
+      cost
     );
-    this.cumulativeCost += this.lastCost;
+    spent.push(last);
 
     if (this.debug)
       console.log(
-        `[OpenAIHelper] usage model=${model} prompt=${
-          this.lastPromptTokens
-        } cached=${this.lastCachedPromptTokens} completion=${
-          this.lastCompletionTokens
-        } cost=$${this.lastCost.toFixed(6)}`
+        `[OpenAIHelper] usage model=${model} prompt=${last.prompt} cached=${
+          last.cached
+        } completion=${last.completion} cost=${
+          last.unpriced ? "unknown" : "$" + last.cost.toFixed(6)
+        }`
       );
 
-    const msg = completion.choices?.[0]?.message?.content || "";
+    const message = completion.choices?.[0]?.message;
+    // Structured outputs report a refusal instead of content; not worth repairing
+    if (message?.refusal) throw new Error(`Model refused: ${message.refusal}`);
+    const msg = message?.content || "";
     if (this.debug) console.log("[OpenAIHelper] Raw content", msg);
+    return { content: msg, usage: last };
+  }
+}
 
-    // Extract JSON substring – basic heuristic.
-    const firstBrace = msg.indexOf("{");
-    const lastBrace = msg.lastIndexOf("}");
-    if (firstBrace === -1 || lastBrace === -1 || lastBrace < firstBrace)
-      throw new Error("No JSON object found in model response");
-    const jsonSlice = msg.slice(firstBrace, lastBrace + 1);
+// Any server speaking the OpenAI chat completions API (Ollama, llama.cpp server, vLLM).
+// Never falls back to the bundled key; local servers usually ignore the key entirely.
+export class OpenAICompatibleHelper extends OpenAIHelper {
+  readonly kind: ProviderKind = "compatible";
 
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(jsonSlice);
-    } catch (e) {
-      throw new Error(
-        "Failed to parse JSON: " + (e as Error).message + "\nRaw: " + msg
-      );
-    }
-    return schema.parse(parsed) as z.infer<T>;
+  constructor(baseURL: string, model: string, apiKey?: string) {
+    super(apiKey, model);
+    this.client = new OpenAI({
+      apiKey: apiKey?.trim() || "not-needed",
+      baseURL,
+      dangerouslyAllowBrowser: true,
+      maxRetries: 0,
+    });
+  }
+
+  // Unknown server: try structured outputs until it rejects them
+  protected supportsJsonSchema(model: string): boolean {
+    return !this.formatRejected.has(model);
   }
 }
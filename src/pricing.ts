@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { ProviderKind } from "./llmProvider";
+
+// Model catalog & pricing. Built-in prices (per 1M tokens, STANDARD tier) can be
+// overridden or extended by the user; entries live in localStorage. Models
+// without an entry are "unpriced": their cost is reported as unknown, not $0.
+
+export interface ModelPricing {
+  input: number;
+  cached?: number;
+  output: number;
+}
+
+const PRICING_KEY = "model_pricing";
+
+export const BUILT_IN_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o-mini": { input: 0.15, cached: 0.075, output: 0.6 },
+  "gpt-4o": { input: 2.5, cached: 1.25, output: 10.0 },
+  "gpt-4.1": { input: 2.0, cached: 0.5, output: 8.0 },
+  "gpt-4.1-mini": { input: 0.4, cached: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cached: 0.025, output: 0.4 },
+  "gpt-5": { input: 1.25, cached: 0.125, output: 10.0 },
+  "gpt-5-mini": { input: 0.25, cached: 0.025, output: 2.0 },
+  "gpt-5-nano": { input: 0.05, cached: 0.005, output: 0.4 },
+  "o4-mini": { input: 1.1, cached: 0.275, output: 4.4 },
+  "o3-mini": { input: 1.1, cached: 0.55, output: 4.4 },
+  o3: { input: 2.0, cached: 0.5, output: 8.0 },
+};
+
+// Suggestions for the model field per provider (free text is still accepted)
+const COMPATIBLE_MODELS = [
+  "llama3.2",
+  "llama3.1",
+  "qwen2.5",
+  "mistral",
+  "gemma2",
+  "phi3",
+];
+
+const PricingSchema = z.object({
+  input: z.number().min(0),
+  cached: z.number().min(0).optional(),
+  output: z.number().min(0),
+});
+const PricingTableSchema = z.record(PricingSchema);
+
+let custom: Record<string, ModelPricing> | null = null;
+
+export function loadCustomPricing(): Record<string, ModelPricing> {
+  if (custom) return { ...custom };
+  try {
+    const raw = localStorage.getItem(PRICING_KEY);
+    const parsed = PricingTableSchema.safeParse(raw ? JSON.parse(raw) : {});
+    custom = parsed.success ? parsed.data : {};
+  } catch {
+    custom = {};
+  }
+  return { ...custom };
+}
+
+export function saveCustomPricing(table: Record<string, ModelPricing>) {
+  custom = { ...table };
+  try {
+    localStorage.setItem(PRICING_KEY, JSON.stringify(custom));
+  } catch (e) {
+    console.warn("Pricing not saved", e);
+  }
+}
+
+// User entries win over built-ins; dated snapshots ("gpt-4o-2024-08-06")
+// fall back to their base model.
+export function priceFor(model: string): ModelPricing | null {
+  const table = { ...BUILT_IN_PRICING, ...loadCustomPricing() };
+  return (
+    table[model] ?? table[model.replace(/-\d{4}-\d{2}-\d{2}$/, "")] ?? null
+  );
+}
+
+// USD for a request, or null when the model has no pricing entry
+export function computeCost(
+  model: string,
+  prompt: number,
+  cached: number,
+  completion: number
+): number | null {
+  const pricing = priceFor(model);
+  if (!pricing) return null;
+  const i = (prompt / 1_000_000) * pricing.input;
+  const c = pricing.cached != null ? (cached / 1_000_000) * pricing.cached : 0;
+  const o = (completion / 1_000_000) * pricing.output;
+  return i + c + o;
+}
+
+// Models to offer for a provider: built-ins, local favourites and priced extras
+export function catalogFor(kind: ProviderKind): string[] {
+  if (kind === "mock") return ["mock"];
+  const extras = Object.keys(loadCustomPricing());
+  const base =
+    kind === "openai" ? Object.keys(BUILT_IN_PRICING) : COMPATIBLE_MODELS;
+  return [...new Set([...base, ...extras])];
+}
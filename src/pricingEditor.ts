@@ -0,0 +1,122 @@
+import {
+  BUILT_IN_PRICING,
+  ModelPricing,
+  loadCustomPricing,
+  saveCustomPricing,
+} from "./pricing";
+
+// Editable pricing table: one row per known model (built-ins first, then user
+// entries). Editing a built-in stores an override; Reset/Remove drops it.
+
+const FIELDS: (keyof ModelPricing)[] = ["input", "cached", "output"];
+
+function priceInput(value: number | undefined, optional: boolean) {
+  const input = document.createElement("input");
+  input.type = "number";
+  input.min = "0";
+  input.step = "any";
+  input.value = value != null ? String(value) : "";
+  if (optional) input.placeholder = "–";
+  return input;
+}
+
+// Parsed row; null when a required price is missing or negative
+function readPricing(inputs: HTMLInputElement[]): ModelPricing | null {
+  const [input, cached, output] = inputs.map((i) =>
+    i.value.trim() === "" ? undefined : Number(i.value)
+  );
+  const valid = (n: number | undefined) => n != null && isFinite(n) && n >= 0;
+  if (!valid(input) || !valid(output)) return null;
+  if (cached != null && !valid(cached)) return null;
+  return cached != null
+    ? { input: input!, cached, output: output! }
+    : { input: input!, output: output! };
+}
+
+function button(text: string, onClick: () => void, className = "") {
+  const btn = document.createElement("button");
+  btn.type = "button";
+  btn.textContent = text;
+  btn.className = className;
+  btn.addEventListener("click", onClick);
+  return btn;
+}
+
+export function renderPricingEditor(
+  container: HTMLElement,
+  activeModel: string,
+  onChange: () => void
+) {
+  const custom = loadCustomPricing();
+  const update = (next: Record<string, ModelPricing>) => {
+    saveCustomPricing(next);
+    onChange();
+    renderPricingEditor(container, activeModel, onChange);
+  };
+
+  container.innerHTML = "";
+  const table = document.createElement("table");
+  table.className = "pricingTable";
+  const head = table.createTHead().insertRow();
+  for (const label of ["Model", "In", "Cached", "Out", ""]) {
+    const th = document.createElement("th");
+    th.textContent = label;
+    head.appendChild(th);
+  }
+  const body = table.createTBody();
+  const models = [
+    ...new Set([...Object.keys(BUILT_IN_PRICING), ...Object.keys(custom)]),
+  ];
+  for (const model of models) {
+    const builtIn = BUILT_IN_PRICING[model];
+    const pricing = custom[model] ?? builtIn;
+    const row = body.insertRow();
+    row.classList.toggle("active", model === activeModel);
+    row.classList.toggle("edited", !!builtIn && !!custom[model]);
+    row.insertCell().textContent = model;
+    const inputs = FIELDS.map((f) => priceInput(pricing[f], f === "cached"));
+    inputs.forEach((input) => {
+      row.insertCell().appendChild(input);
+      input.addEventListener("change", () => {
+        const next = readPricing(inputs);
+        if (next) update({ ...custom, [model]: next });
+        else renderPricingEditor(container, activeModel, onChange); // revert
+      });
+    });
+    const actions = row.insertCell();
+    if (custom[model]) {
+      const drop = () => {
+        const next = { ...custom };
+        delete next[model];
+        update(next);
+      };
+      actions.appendChild(
+        builtIn ? button("Reset", drop) : button("Remove", drop, "danger")
+      );
+    }
+  }
+
+  // New entry (prefilled with the active model when it has no price yet)
+  const add = body.insertRow();
+  add.className = "add";
+  const name = document.createElement("input");
+  name.type = "text";
+  name.placeholder = "model name";
+  name.spellcheck = false;
+  if (activeModel && !models.includes(activeModel)) name.value = activeModel;
+  add.insertCell().appendChild(name);
+  const inputs = FIELDS.map((f) => priceInput(undefined, f === "cached"));
+  inputs.forEach((input) => add.insertCell().appendChild(input));
+  add.insertCell().appendChild(
+    button("Add", () => {
+      const model = name.value.trim();
+      const pricing = readPricing(inputs);
+      if (!model || !pricing) {
+        alert("Enter a model name plus input and output prices (USD per 1M).");
+        return;
+      }
+      update({ ...custom, [model]: pricing });
+    })
+  );
+  container.appendChild(table);
+}
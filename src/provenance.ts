@@ -0,0 +1,40 @@
+import { TokenUsage } from "./llmProvider";
+
+// Per-cell record of how each model update came about: the exact prompt sent,
+// the raw answer and what it cost. Kept in memory only, newest first.
+
+export const PROVENANCE_DEPTH = 5; // updates kept per cell
+
+export interface CellProvenance {
+  timestamp: number;
+  prompt: string; // composed prompt (the whole batch prompt for batched updates)
+  raw: string; // unparsed model output ("" when none arrived)
+  model: string;
+  latencyMs: number; // including retries and backoff
+  attempts: number;
+  usage: TokenUsage; // of the final attempt (batch totals when batched)
+  cached?: boolean; // answered by the response cache
+  batchSize?: number; // cells sharing the request
+  value?: string; // accepted result
+  error?: string; // set when the update failed
+}
+
+export class ProvenanceLog {
+  private byCell = new Map<string, CellProvenance[]>();
+
+  record(x: number, y: number, entry: CellProvenance) {
+    const key = `${x},${y}`;
+    const list = this.byCell.get(key) ?? [];
+    list.unshift(entry);
+    if (list.length > PROVENANCE_DEPTH) list.length = PROVENANCE_DEPTH;
+    this.byCell.set(key, list);
+  }
+
+  get(x: number, y: number): CellProvenance[] {
+    return [...(this.byCell.get(`${x},${y}`) ?? [])];
+  }
+
+  clear() {
+    this.byCell.clear();
+  }
+}
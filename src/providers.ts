@@ -0,0 +1,63 @@
+import { LLMProvider, ProviderKind } from "./llmProvider";
+import { OpenAIHelper, OpenAICompatibleHelper } from "./openaiHelper";
+import { MockProvider } from "./mockProvider";
+import { DEFAULT_MODEL, DEFAULT_COMPATIBLE_BASE_URL } from "./constants";
+
+// Provider selection persisted in localStorage (alongside openai_api_key).
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  model: string; // empty → provider default
+  baseURL: string; // only used by "compatible"
+  apiKey: string;
+}
+
+const PROVIDER_KINDS: ProviderKind[] = ["openai", "compatible", "mock"];
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  openai: DEFAULT_MODEL,
+  compatible: "llama3.2",
+  mock: "mock",
+};
+
+export function loadProviderSettings(): ProviderSettings {
+  const rawKind = localStorage.getItem("llm_provider") || "";
+  const kind = (PROVIDER_KINDS as string[]).includes(rawKind)
+    ? (rawKind as ProviderKind)
+    : "openai";
+  return {
+    kind,
+    model: localStorage.getItem("llm_model")?.trim() || "",
+    baseURL: localStorage.getItem("llm_base_url")?.trim() || "",
+    apiKey: localStorage.getItem("openai_api_key")?.trim() || "",
+  };
+}
+
+export function saveProviderSettings(s: ProviderSettings) {
+  localStorage.setItem("llm_provider", s.kind);
+  if (s.model) localStorage.setItem("llm_model", s.model);
+  else localStorage.removeItem("llm_model");
+  if (s.baseURL) localStorage.setItem("llm_base_url", s.baseURL);
+  else localStorage.removeItem("llm_base_url");
+}
+
+export function createProvider(s: ProviderSettings): LLMProvider {
+  const model = s.model || DEFAULT_MODELS[s.kind];
+  switch (s.kind) {
+    case "compatible":
+      // Never forward the OpenAI key to an arbitrary base URL
+      return new OpenAICompatibleHelper(
+        s.baseURL || DEFAULT_COMPATIBLE_BASE_URL,
+        model
+      );
+    case "mock":
+      return new MockProvider(undefined, 0, model);
+    default:
+      return new OpenAIHelper(s.apiKey || undefined, model);
+  }
+}
+
+// Full generations need the user's own key on OpenAI; other providers are always ready.
+export function providerReady(s: ProviderSettings): boolean {
+  return s.kind !== "openai" || !!s.apiKey;
+}
@@ -1,60 +1,133 @@
 // Simple rate limiter with concurrency + minimal interval between task starts.
-// Ensures we don't exceed provider throttling.
+// Ensures we don't exceed provider throttling. Concurrency adapts AIMD-style:
+// halved on throttling, raised by one after a run of successes (up to the ceiling).
+
+const RECOVERY_STREAK = 5; // successes needed before raising concurrency
+
+// A granted slot that can be handed back during a long wait and taken again;
+// release() does nothing while the slot is not held.
+export interface Lease {
+  release(): void;
+  reacquire(): Promise<void>;
+}
+
+interface Waiter {
+  grant: () => void;
+  reject: (reason: unknown) => void;
+}
 
 export class RateLimiter {
   private maxConcurrent: number;
+  private ceiling: number; // configured concurrency; adaptation never exceeds it
+  private successStreak = 0;
   private minInterval: number; // ms between starting tasks
   private active = 0;
   private lastStart = 0;
-  private queue: Array<() => void> = [];
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(maxConcurrent: number, minIntervalMs: number) {
     this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.ceiling = this.maxConcurrent;
     this.minInterval = Math.max(0, minIntervalMs);
   }
 
-  acquire(): Promise<void> {
-    return new Promise((resolve) => {
-      const attempt = () => {
-        const now = Date.now();
-        // Can we start a new task?
-        if (
-          this.active < this.maxConcurrent &&
-          now - this.lastStart >= this.minInterval
-        ) {
-          this.active++;
-          this.lastStart = now;
+  get concurrency() {
+    return this.maxConcurrent;
+  }
+
+  // Provider throttled us: halve concurrency
+  backoff() {
+    this.successStreak = 0;
+    this.maxConcurrent = Math.max(1, Math.floor(this.maxConcurrent / 2));
+  }
+
+  // A request succeeded: after RECOVERY_STREAK in a row, allow one more slot
+  recover() {
+    if (this.maxConcurrent >= this.ceiling) return;
+    if (++this.successStreak < RECOVERY_STREAK) return;
+    this.successStreak = 0;
+    this.maxConcurrent++;
+    this.processQueue();
+  }
+
+  // Resolves when a slot is granted; rejects (without taking a slot) if the
+  // signal aborts or the queue is drained while waiting.
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const idx = this.queue.indexOf(waiter);
+        if (idx !== -1) this.queue.splice(idx, 1);
+        reject(signal?.reason);
+      };
+      const waiter: Waiter = {
+        grant: () => {
+          signal?.removeEventListener("abort", onAbort);
           resolve();
-          return;
-        }
-        // Queue attempt
-        this.queue.push(attempt);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(reason);
+        },
       };
-      this.queue.push(attempt);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
       this.processQueue();
     });
   }
 
+  // acquire() as a Lease, so the holder never releases a slot it gave back
+  async lease(signal?: AbortSignal): Promise<Lease> {
+    await this.acquire(signal);
+    let held = true;
+    return {
+      release: () => {
+        if (!held) return;
+        held = false;
+        this.release();
+      },
+      reacquire: async () => {
+        if (held) return;
+        await this.acquire(signal);
+        held = true;
+      },
+    };
+  }
+
   release() {
     if (this.active > 0) this.active--;
     this.processQueue();
   }
 
+  // Reject every queued waiter (active slots are unaffected)
+  drain(reason: unknown = new Error("Rate limiter drained")) {
+    const waiting = this.queue.splice(0);
+    for (const w of waiting) w.reject(reason);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  get pending() {
+    return this.queue.length;
+  }
+
   private processQueue() {
-    if (!this.queue.length) return;
-    if (this.active >= this.maxConcurrent) return; // wait for release
-    const now = Date.now();
-    const wait = this.minInterval - (now - this.lastStart);
-    if (wait > 0) {
-      // Re-run when interval elapses
-      setTimeout(() => this.processQueue(), wait);
-      return;
-    }
-    const nextAttempt = this.queue.shift();
-    if (nextAttempt) nextAttempt();
-    // If capacity remains, try more immediately
-    if (this.queue.length && this.active < this.maxConcurrent) {
-      this.processQueue();
+    while (this.queue.length && this.active < this.maxConcurrent) {
+      const wait = this.minInterval - (Date.now() - this.lastStart);
+      if (wait > 0) {
+        // Re-run when interval elapses
+        if (!this.timer)
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.processQueue();
+          }, wait);
+        return;
+      }
+      const next = this.queue.shift()!;
+      this.active++;
+      this.lastStart = Date.now();
+      next.grant();
     }
   }
 }
@@ -0,0 +1,202 @@
+import { z } from "zod";
+import {
+  LLMProvider,
+  ProviderKind,
+  StructuredRequest,
+  StructuredResponse,
+  TokenUsage,
+  emptyUsage,
+} from "./llmProvider";
+
+// Content-addressed response cache placed in front of a provider. Identical
+// (provider, model, schema name, composed prompt) requests are answered once:
+// later ones hit memory / IndexedDB, concurrent ones share the in-flight call.
+
+interface CachedResponse {
+  value: unknown;
+  raw: string;
+  model: string;
+}
+
+const DB_NAME = "the-one-prompt-cache";
+const STORE = "responses";
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+export class ResponseCache {
+  enabled = true; // off for rules meant to be stochastic
+  persist = false; // mirror entries into IndexedDB across sessions
+  private memory = new Map<string, CachedResponse>();
+  private inflight = new Map<string, Promise<StructuredResponse<unknown>>>();
+  private db: Promise<IDBDatabase | null> | null = null;
+  private stats: CacheStats = { hits: 0, misses: 0 };
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+  resetStats() {
+    this.stats = { hits: 0, misses: 0 };
+  }
+
+  async clear() {
+    this.memory.clear();
+    this.resetStats();
+    const db = await this.openDb();
+    if (!db) return;
+    await idbRequest(
+      db.transaction(STORE, "readwrite").objectStore(STORE).clear()
+    );
+  }
+
+  async fetch<T>(
+    key: string,
+    compute: () => Promise<StructuredResponse<T>>,
+    signal?: AbortSignal
+  ): Promise<StructuredResponse<T>> {
+    if (!this.enabled) return compute();
+    const hit = this.memory.get(key) ?? (await this.readPersisted(key));
+    if (hit) {
+      this.stats.hits++;
+      return {
+        value: hit.value as T,
+        raw: hit.raw,
+        model: hit.model,
+        usage: emptyUsage(),
+        cached: true,
+      };
+    }
+    const shared = this.inflight.get(key) as
+      | Promise<StructuredResponse<T>>
+      | undefined;
+    if (shared) {
+      try {
+        const res = await shared;
+        this.stats.hits++;
+        return { ...res, usage: emptyUsage(), cached: true };
+      } catch (e) {
+        // The owner failed or was aborted; unless we were too, ask ourselves
+        if (signal?.aborted) throw e;
+      }
+    }
+    this.stats.misses++;
+    const pending = compute();
+    this.inflight.set(key, pending as Promise<StructuredResponse<unknown>>);
+    try {
+      const res = await pending;
+      const entry = { value: res.value, raw: res.raw, model: res.model };
+      this.memory.set(key, entry);
+      if (this.persist) void this.writePersisted(key, entry);
+      return res;
+    } finally {
+      if (this.inflight.get(key) === pending) this.inflight.delete(key);
+    }
+  }
+
+  // --- IndexedDB persistence (best effort; unavailable → memory only) ---
+  private openDb(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === "undefined") return Promise.resolve(null);
+    if (!this.db) {
+      this.db = new Promise((resolve) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          console.warn("Response cache: IndexedDB unavailable", req.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async readPersisted(key: string): Promise<CachedResponse | null> {
+    if (!this.persist) return null;
+    const db = await this.openDb();
+    if (!db) return null;
+    try {
+      const found = (await idbRequest(
+        db.transaction(STORE, "readonly").objectStore(STORE).get(key)
+      )) as CachedResponse | undefined;
+      if (found) this.memory.set(key, found);
+      return found ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writePersisted(key: string, entry: CachedResponse) {
+    const db = await this.openDb();
+    if (!db) return;
+    try {
+      await idbRequest(
+        db.transaction(STORE, "readwrite").objectStore(STORE).put(entry, key)
+      );
+    } catch (e) {
+      console.warn("Response cache: write failed", e);
+    }
+  }
+}
+
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Provider decorator routing structured requests through a ResponseCache.
+// Cache hits cost nothing, so usage totals stay those of the wrapped provider.
+export class CachingProvider implements LLMProvider {
+  readonly inner: LLMProvider;
+  private cache: ResponseCache;
+
+  constructor(inner: LLMProvider, cache: ResponseCache) {
+    this.inner = inner;
+    this.cache = cache;
+  }
+
+  get kind(): ProviderKind {
+    return this.inner.kind;
+  }
+  get model(): string {
+    return this.inner.model;
+  }
+  getLastUsage(): TokenUsage {
+    return this.inner.getLastUsage();
+  }
+  getCumulativeUsage(): TokenUsage {
+    return this.inner.getCumulativeUsage();
+  }
+
+  async getStructuredWithZod<T extends z.ZodTypeAny>(
+    userText: string,
+    schema: T,
+    name: string,
+    model = this.model
+  ): Promise<z.infer<T>> {
+    const res = await this.getStructured({
+      prompt: userText,
+      schema,
+      name,
+      model,
+    });
+    return res.value;
+  }
+
+  async getStructured<T extends z.ZodTypeAny>(
+    request: StructuredRequest<T>
+  ): Promise<StructuredResponse<z.infer<T>>> {
+    const model = request.model || this.model;
+    const key = [this.kind, model, request.name, request.prompt].join("\u0000");
+    const res = await this.cache.fetch(
+      key,
+      () => this.inner.getStructured({ ...request, model }),
+      request.signal
+    );
+    // Re-validate: a persisted entry may predate a schema change
+    return { ...res, value: request.schema.parse(res.value) };
+  }
+}
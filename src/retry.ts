@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { ModelOutputError } from "./llmProvider";
+
+// Retry with exponential backoff + jitter for transient model failures:
+// throttling (429), server errors (5xx), network errors and unparseable output.
+// A server's Retry-After is waited out in full, or fails fast when too long.
+
+export interface RetryOptions {
+  maxAttempts: number; // including the first try
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs?: number; // longest server-requested wait worth honouring
+  signal?: AbortSignal;
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void;
+  // Around a server-requested wait: hand back the caller's rate-limiter slot,
+  // then take it again before the next attempt
+  release?: () => void;
+  reacquire?: () => Promise<void>;
+}
+
+// The server asked for a longer wait than the caller accepts
+export class RateLimitedError extends Error {
+  readonly retryAfterMs: number;
+  constructor(retryAfterMs: number) {
+    super(`Rate limited, retry after ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = "RateLimitedError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function statusOf(e: unknown): number | undefined {
+  const status = (e as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+export function isThrottleError(e: unknown): boolean {
+  return statusOf(e) === 429;
+}
+
+export function isTransientError(e: unknown): boolean {
+  if (e instanceof ModelOutputError || e instanceof z.ZodError) return true;
+  const status = statusOf(e);
+  if (status !== undefined) return status === 429 || status >= 500;
+  // The OpenAI SDK wraps network failures; a bare fetch rejects with a
+  // TypeError, so only those that mention the network (not programming errors)
+  const { name, message } = (e ?? {}) as { name?: unknown; message?: unknown };
+  if (name === "APIConnectionError" || name === "APIConnectionTimeoutError")
+    return true;
+  return (
+    name === "TypeError" &&
+    typeof message === "string" &&
+    /fetch|network/i.test(message)
+  );
+}
+
+// Server-requested wait from retry-after-ms / retry-after (seconds or HTTP date)
+export function retryAfterMs(e: unknown): number | null {
+  const headers = (e as { headers?: unknown } | null)?.headers;
+  if (!headers) return null;
+  const get = (name: string): string | null =>
+    typeof (headers as Headers).get === "function"
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, string | undefined>)[name] ?? null;
+  const ms = parseFloat(get("retry-after-ms") || "");
+  if (!isNaN(ms) && ms >= 0) return ms;
+  const raw = get("retry-after");
+  if (!raw) return null;
+  const secs = parseFloat(raw);
+  if (!isNaN(secs) && secs >= 0) return secs * 1000;
+  const date = Date.parse(raw);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential delay with "equal jitter": half fixed, half random
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number {
+  const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+export function abortableDelay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  opts: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (e) {
+      if (opts.signal?.aborted) throw e;
+      if (attempt >= opts.maxAttempts || !isTransientError(e)) throw e;
+      const requested = retryAfterMs(e);
+      if (requested === null) {
+        const delay = backoffDelay(attempt, opts.baseDelayMs, opts.maxDelayMs);
+        opts.onRetry?.(e, attempt, delay);
+        await abortableDelay(delay, opts.signal);
+        continue;
+      }
+      // The server's wait is honoured in full, without holding a slot
+      if (requested > (opts.maxRetryAfterMs ?? Infinity))
+        throw new RateLimitedError(requested);
+      opts.onRetry?.(e, attempt, requested);
+      opts.release?.();
+      await abortableDelay(requested, opts.signal);
+      await opts.reacquire?.();
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { z } from "zod";
+import { DEFAULT_TEMPLATE } from "./kernel";
+import { Experiment, ExperimentSchema, EXPERIMENT_VERSION } from "./experiment";
+import { NeighborhoodConfig, DEFAULT_NEIGHBORHOOD } from "./neighborhood";
+import { BoundaryConfig, DEFAULT_BOUNDARY } from "./boundary";
+import { CellSchemaConfig } from "./cellSchema";
+
+// Rule library: curated rules bundled with a seed grid and neighborhood, plus
+// user-saved rules (name, tags) kept in localStorage. A rule's setup is an
+// experiment without history, so loading one reuses the experiment path.
+
+export interface LibraryRule {
+  name: string;
+  description: string;
+  tags: string[];
+  setup: Experiment;
+  builtIn?: boolean;
+}
+
+const LIBRARY_KEY = "rule_library";
+
+const MOORE: NeighborhoodConfig = { kind: "moore", radius: 1, mask: [] };
+
+// Seed rows: one string per cell, "" for empty
+function builtIn(
+  name: string,
+  description: string,
+  tags: string[],
+  prompt: string,
+  seed: string[][],
+  neighborhood: NeighborhoodConfig = DEFAULT_NEIGHBORHOOD,
+  boundary: BoundaryConfig = DEFAULT_BOUNDARY
+): LibraryRule {
+  return {
+    name,
+    description,
+    tags,
+    builtIn: true,
+    setup: {
+      version: EXPERIMENT_VERSION,
+      cols: seed[0].length,
+      rows: seed.length,
+      grid: seed.map((row) => row.map((text) => ({ text }))),
+      generation: 0,
+      prompt,
+      template: DEFAULT_TEMPLATE,
+      neighborhood: { ...neighborhood, mask: [...neighborhood.mask] },
+      boundary: { ...boundary },
+    },
+  };
+}
+
+// Rule whose cells are JSON objects of declared fields
+function withFields(rule: LibraryRule, cellSchema: CellSchemaConfig) {
+  return { ...rule, setup: { ...rule.setup, cellSchema } };
+}
+
+// Character rows → seed rows (e.g. ".1." with { "1": "1" }); unmapped chars are empty
+function charSeed(rows: string[], map: Record<string, string>): string[][] {
+  return rows.map((row) => Array.from(row, (ch) => map[ch] ?? ""));
+}
+
+export const BUILT_IN_RULES: LibraryRule[] = [
+  builtIn(
+    "Copy-right shift",
+    "Every value moves one cell to the left per generation (wrapping around).",
+    ["shift", "deterministic", "beginner"],
+    "Return exactly the value of the right neighbor, or an empty string if it is empty.",
+    [
+      ["", "", "", "", ""],
+      ["", "", "", "", ""],
+      ["H", "E", "L", "L", "O"],
+      ["", "", "", "", ""],
+      ["", "", "", "", ""],
+    ]
+  ),
+  builtIn(
+    "Color gradient",
+    "Corner colors bleed into the empty cells and blend into a smooth gradient.",
+    ["color", "smoothing"],
+    "Cells hold hex colors (#RRGGBB) or are empty. Return the average of this cell's color and its non-empty neighbors' colors as a #RRGGBB hex string. If all of them are empty, return an empty string.",
+    [
+      ["#ff0000", "", "", "", "#ffff00"],
+      ["", "", "", "", ""],
+      ["", "", "", "", ""],
+      ["", "", "", "", ""],
+      ["#0000ff", "", "", "", "#00ff00"],
+    ],
+    MOORE,
+    { mode: "reflect", edgeValue: "" }
+  ),
+  builtIn(
+    "Word chain",
+    "Words travel right; each new word starts with the last letter of the one before.",
+    ["words", "propagation", "creative"],
+    "Each cell holds one English word or is empty. If the left neighbor holds a word, return a different single word that starts with that word's last letter. Otherwise return the current value unchanged.",
+    [
+      ["apple", "", "", "", ""],
+      ["river", "", "", "", ""],
+      ["stone", "", "", "", ""],
+      ["night", "", "", "", ""],
+      ["ember", "", "", "", ""],
+    ]
+  ),
+  builtIn(
+    "Rock-paper-scissors",
+    "Cyclic dominance: a cell is taken over when enough neighbors beat it, forming spirals.",
+    ["game", "cyclic", "moore"],
+    "Each cell is rock, paper or scissors. Rock beats scissors, scissors beats paper, paper beats rock. Count the neighbors holding the value that beats this cell's value; if there are 3 or more, return that winning value, otherwise return the current value. Answer with exactly one word: rock, paper or scissors.",
+    charSeed(["rrrppp", "rrrppp", "rrsspp", "sssspp", "sssrrr", "pppsrr"], {
+      r: "rock",
+      p: "paper",
+      s: "scissors",
+    }),
+    MOORE
+  ),
+  builtIn(
+    "Life-like",
+    "Conway's Game of Life with 1 = alive and empty = dead, seeded with a glider.",
+    ["life", "classic", "deterministic", "moore"],
+    "Cells are '1' (alive) or empty (dead). Count the neighbors equal to '1'. A live cell with 2 or 3 live neighbors stays '1'; an empty cell with exactly 3 live neighbors becomes '1'; every other cell becomes empty. Return only '1' or an empty string.",
+    charSeed(["......", "..1...", "...1..", ".111..", "......", "......"], {
+      "1": "1",
+    }),
+    MOORE
+  ),
+  withFields(
+    builtIn(
+      "Foxes & rabbits",
+      "Multi-field cells: species, age and color. Rabbits eat grass, foxes eat rabbits, and old animals die.",
+      ["fields", "ecosystem", "moore"],
+      "Each cell has a species (grass, rabbit or fox), an age and a color. Grass next to a rabbit becomes a rabbit of age 0. A rabbit next to 2 or more foxes becomes a fox of age 0. Animals otherwise age by 1; a rabbit older than 5 or a fox older than 8 becomes grass of age 0. Grass stays grass and ages by 1. Colors: grass #2a9d8f, rabbit #e9c46a, fox #e76f51.",
+      charSeed(["gggggg", "grrggg", "grrgfg", "ggggfg", "gggggg"], {
+        g: '{"species":"grass","age":0,"color":"#2a9d8f"}',
+        r: '{"species":"rabbit","age":0,"color":"#e9c46a"}',
+        f: '{"species":"fox","age":0,"color":"#e76f51"}',
+      }),
+      MOORE
+    ),
+    {
+      fields: [
+        { name: "species", type: "enum", options: ["grass", "rabbit", "fox"] },
+        { name: "age", type: "number" },
+        { name: "color", type: "color" },
+      ],
+      background: "color",
+      caption: "species",
+    }
+  ),
+];
+
+// --- User rules ---
+const UserRuleSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  tags: z.array(z.string()),
+  setup: ExperimentSchema,
+});
+
+function storedEntries(): unknown[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LIBRARY_KEY) || "[]");
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+}
+
+// Entries failing the schema (e.g. saved by another version) are skipped, not
+// dropped: saveUserRules() writes them back untouched.
+export function loadUserRules(): LibraryRule[] {
+  const rules: LibraryRule[] = [];
+  for (const entry of storedEntries()) {
+    const parsed = UserRuleSchema.safeParse(entry);
+    if (parsed.success) rules.push(parsed.data);
+  }
+  return rules;
+}
+
+// A saved rule replaces an unreadable entry of the same name
+export function saveUserRules(rules: LibraryRule[]) {
+  const names = new Set(rules.map((r) => r.name));
+  const unreadable = storedEntries().filter(
+    (entry) =>
+      !UserRuleSchema.safeParse(entry).success &&
+      !names.has((entry as { name?: unknown } | null)?.name as string)
+  );
+  localStorage.setItem(
+    LIBRARY_KEY,
+    JSON.stringify([
+      ...unreadable,
+      ...rules.map(({ name, description, tags, setup }) => ({
+        name,
+        description,
+        tags,
+        setup,
+      })),
+    ])
+  );
+}
+
+// "a, b  ,c" → ["a", "b", "c"] (lowercase, no duplicates)
+export function parseTags(raw: string): string[] {
+  const tags = raw
+    .split(",")
+    .map((t) => t.trim().toLowerCase().replace(/^#/, ""))
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+// Every whitespace-separated term must match; "#tag" terms match tags exactly
+export function searchRules(rules: LibraryRule[], query: string) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return rules.filter((rule) =>
+    terms.every((term) =>
+      term.startsWith("#")
+        ? rule.tags.includes(term.slice(1))
+        : [rule.name, rule.description, rule.setup.prompt, ...rule.tags].some(
+            (s) => s.toLowerCase().includes(term)
+          )
+    )
+  );
+}
+
+export interface RuleListHandlers {
+  onLoad: (rule: LibraryRule) => void;
+  onDelete: (rule: LibraryRule) => void;
+  onTag: (tag: string) => void;
+}
+
+export function renderRuleList(
+  container: HTMLElement,
+  rules: LibraryRule[],
+  handlers: RuleListHandlers
+) {
+  container.innerHTML = "";
+  if (!rules.length) {
+    const empty = document.createElement("li");
+    empty.className = "empty";
+    empty.textContent = "No matching rules.";
+    container.appendChild(empty);
+    return;
+  }
+  for (const rule of rules) {
+    const li = document.createElement("li");
+    const head = document.createElement("div");
+    head.className = "ruleHead";
+    const name = document.createElement("strong");
+    name.textContent = rule.builtIn ? rule.name : `★ ${rule.name}`;
+    name.title = rule.setup.prompt;
+    const size = document.createElement("small");
+    size.textContent = `${rule.setup.cols}×${rule.setup.rows} · ${rule.setup.neighborhood.kind}`;
+    head.append(name, size);
+    if (!rule.builtIn) {
+      const del = document.createElement("button");
+      del.type = "button";
+      del.className = "danger";
+      del.textContent = "Delete";
+      del.addEventListener("click", () => handlers.onDelete(rule));
+      head.appendChild(del);
+    }
+    const load = document.createElement("button");
+    load.type = "button";
+    load.textContent = "Load";
+    load.title = "Replace prompt, grid and neighborhood with this rule";
+    load.addEventListener("click", () => handlers.onLoad(rule));
+    head.appendChild(load);
+    li.appendChild(head);
+    if (rule.description) {
+      const desc = document.createElement("p");
+      desc.textContent = rule.description;
+      li.appendChild(desc);
+    }
+    const tags = document.createElement("div");
+    tags.className = "ruleTags";
+    for (const tag of rule.tags) {
+      const chip = document.createElement("button");
+      chip.type = "button";
+      chip.textContent = `#${tag}`;
+      chip.addEventListener("click", () => handlers.onTag(tag));
+      tags.appendChild(chip);
+    }
+    li.appendChild(tags);
+    container.appendChild(li);
+  }
+}
@@ -0,0 +1,907 @@
+import {
+  kernel,
+  batchKernel,
+  composeBatchPrompt,
+  composeCellPrompt,
+  BatchCell,
+  Cell,
+  Neighbor,
+  DEFAULT_TEMPLATE,
+} from "./kernel";
+import { Experiment, EXPERIMENT_VERSION } from "./experiment";
+import {
+  LLMProvider,
+  ModelOutputError,
+  TokenUsage,
+  emptyUsage,
+  failureUsage,
+} from "./llmProvider";
+import { Lease, RateLimiter } from "./rateLimiter";
+import { ResponseCache, CachingProvider } from "./responseCache";
+import { withRetry, isThrottleError, RetryOptions } from "./retry";
+import { History, HistoryEntry, cloneGrid } from "./history";
+import { ProvenanceLog, CellProvenance } from "./provenance";
+import { UsageTracker } from "./usage";
+import {
+  CellSchemaConfig,
+  CellSchemaConfigSchema,
+  EMPTY_CELL_SCHEMA,
+  hasFields,
+} from "./cellSchema";
+import {
+  NeighborhoodConfig,
+  NeighborOffset,
+  DEFAULT_NEIGHBORHOOD,
+  neighborOffsets,
+} from "./neighborhood";
+import {
+  BoundaryConfig,
+  DEFAULT_BOUNDARY,
+  isOffGrid,
+  resolveCoord,
+} from "./boundary";
+import {
+  MAX_CONCURRENT,
+  MIN_INTERVAL_MS,
+  MAX_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  MAX_RETRY_AFTER_MS,
+  DEFAULT_PROMPT,
+  DEFAULT_HISTORY_DEPTH,
+  DEFAULT_BATCH_SIZE,
+  MAX_BATCH_SIZE,
+} from "./constants";
+
+// Copy of a stored grid with stale "pending" marks resolved (no request survives a restore)
+function settledGrid(grid: Cell[][]): Cell[][] {
+  return grid.map((row) =>
+    row.map((c) =>
+      c.status === "pending"
+        ? { ...c, status: c.error ? "error" : "ok" }
+        : { ...c }
+    )
+  );
+}
+
+type Coord = { x: number; y: number };
+
+// Split coordinates into compact tiles of `size` cells: bands of ~sqrt(size)
+// rows walked column by column, so a tile's cells tend to share neighbors.
+function tileCoords(coords: Coord[], size: number): Coord[][] {
+  const band = Math.max(1, Math.floor(Math.sqrt(size)));
+  const sorted = [...coords].sort(
+    (a, b) =>
+      Math.floor(a.y / band) - Math.floor(b.y / band) || a.x - b.x || a.y - b.y
+  );
+  const tiles: Coord[][] = [];
+  for (let i = 0; i < sorted.length; i += size)
+    tiles.push(sorted.slice(i, i + size));
+  return tiles;
+}
+
+// Which part of the old grid survives a resize (the rest is cut or padded)
+export type ResizeAnchor = "top-left" | "center" | "bottom-right";
+
+// Grid state, history and model provider interaction, without any rendering or
+// browser storage: the canvas Engine extends it, the CLI runs it headless.
+// Subclasses hear about changes through the protected hooks below.
+export class Simulation {
+  cols: number;
+  rows: number;
+  grid: Cell[][] = [];
+  generation = 0; // completed full generations on the current branch
+  private helper: LLMProvider | null = null;
+  private cache = new ResponseCache();
+  private generationInProgress = false;
+  protected loadingCells = new Set<string>();
+  private limiter = new RateLimiter(MAX_CONCURRENT, MIN_INTERVAL_MS);
+  private neighborhood: NeighborhoodConfig = { ...DEFAULT_NEIGHBORHOOD };
+  private offsets: NeighborOffset[] = neighborOffsets(DEFAULT_NEIGHBORHOOD);
+  private boundary: BoundaryConfig = { ...DEFAULT_BOUNDARY };
+  private history = new History(DEFAULT_HISTORY_DEPTH);
+  private historyListener: (() => void) | null = null;
+  private pendingPaint = false; // unrecorded paint stroke in progress
+  private template = DEFAULT_TEMPLATE;
+  protected cellSchema: CellSchemaConfig = EMPTY_CELL_SCHEMA;
+  private abort = new AbortController(); // replaced after every cancel()
+  private retrySnapshot: Cell[][] | null = null; // input of the latest generation
+  private provenance = new ProvenanceLog();
+  private usage: UsageTracker;
+  protected usageListener: (() => void) | null = null;
+  private changeListener: (() => void) | null = null;
+  private batchSize = DEFAULT_BATCH_SIZE;
+  // Uncached batched requests; estimatedSingleCost prices the same cells as
+  // individual requests (cost scaled by composed prompt length)
+  private batchStats = {
+    requests: 0,
+    cells: 0,
+    cost: 0,
+    estimatedSingleCost: 0,
+  };
+
+  // `usage` defaults to the browser-persisted tracker
+  constructor(cols: number, rows: number, usage = new UsageTracker()) {
+    this.cols = cols;
+    this.rows = rows;
+    this.usage = usage;
+    this.grid = this.createGrid();
+    this.record("Initial");
+  }
+
+  // --- Change hooks (no-ops here) ---
+  // Cells, their pending marks or the whole grid changed
+  protected changed() {
+    this.changeListener?.();
+  }
+  // cols / rows changed (resize, undo across a resize, load)
+  protected gridResized() {}
+  // A request was accounted (usage, cache and batch statistics)
+  protected usageChanged() {
+    this.usageListener?.();
+  }
+
+  // --- Configuration ---
+  // Every provider is fronted by the shared response cache
+  setProvider(provider: LLMProvider) {
+    this.helper = new CachingProvider(provider, this.cache);
+  }
+  getProvider(): LLMProvider | null {
+    return this.helper;
+  }
+  getCache() {
+    return this.cache;
+  }
+  getUsage() {
+    return this.usage;
+  }
+  setUsageListener(listener: () => void) {
+    this.usageListener = listener;
+  }
+  setChangeListener(listener: () => void) {
+    this.changeListener = listener;
+  }
+  getBatchStats() {
+    return { ...this.batchStats };
+  }
+  setBatchSize(size: number) {
+    this.batchSize = Math.min(MAX_BATCH_SIZE, Math.max(1, Math.floor(size)));
+  }
+  getBatchSize() {
+    return this.batchSize;
+  }
+  setTemplate(template: string) {
+    this.template = template;
+  }
+  getTemplate() {
+    return this.template;
+  }
+  // Changing the fields keeps cell texts (values not matching them stay text)
+  setCellSchema(config: CellSchemaConfig) {
+    this.cellSchema = CellSchemaConfigSchema.parse(config);
+  }
+  getCellSchema(): CellSchemaConfig {
+    return CellSchemaConfigSchema.parse(this.cellSchema); // deep copy
+  }
+  // Labels of the active neighborhood (per-neighbor template placeholders)
+  neighborLabels(): string[] {
+    return this.offsets.map((o) => o.label);
+  }
+  // The exact prompt a single-cell request for (cx, cy) would send
+  previewPrompt(prompt: string, cx: number, cy: number): string | null {
+    if (cy < 0 || cy >= this.rows || cx < 0 || cx >= this.cols) return null;
+    const snapshot = this.snapshot();
+    return composeCellPrompt(
+      this.template,
+      prompt,
+      this.neighborsOf(snapshot, cx, cy),
+      snapshot[cy][cx],
+      this.cellSchema
+    );
+  }
+  setHistoryListener(listener: () => void) {
+    this.historyListener = listener;
+  }
+  setNeighborhood(config: NeighborhoodConfig) {
+    this.neighborhood = { ...config, mask: config.mask.map((o) => ({ ...o })) };
+    this.offsets = neighborOffsets(this.neighborhood);
+  }
+  setBoundary(config: BoundaryConfig) {
+    this.boundary = { ...config };
+  }
+  getBoundary(): BoundaryConfig {
+    return { ...this.boundary };
+  }
+  getNeighborhood(): NeighborhoodConfig {
+    return {
+      ...this.neighborhood,
+      mask: this.neighborhood.mask.map((o) => ({ ...o })),
+    };
+  }
+
+  // --- Grid management ---
+  private createGrid(): Cell[][] {
+    return Array.from({ length: this.rows }, () =>
+      Array.from({ length: this.cols }, () => ({ text: "" }))
+    );
+  }
+  // Refused while requests are in flight (they'd write into the old grid)
+  resize(cols: number, rows: number, anchor: ResizeAnchor = "top-left") {
+    const oldCols = this.cols;
+    const oldRows = this.rows;
+    const oldGrid = this.grid;
+    if (this.isBusy()) return false;
+    if (cols === oldCols && rows === oldRows) return true;
+    // Offset of the old content inside the new grid (negative = cropped)
+    const shift = (from: number, to: number) =>
+      anchor === "top-left"
+        ? 0
+        : anchor === "center"
+        ? Math.floor((to - from) / 2)
+        : to - from;
+    const dx = shift(oldCols, cols);
+    const dy = shift(oldRows, rows);
+    const newGrid: Cell[][] = Array.from({ length: rows }, (_, y) =>
+      Array.from({ length: cols }, (_, x) => ({
+        text: oldGrid[y - dy]?.[x - dx]?.text ?? "",
+      }))
+    );
+    this.cols = cols;
+    this.rows = rows;
+    this.grid = newGrid;
+    this.retrySnapshot = null;
+    this.provenance.clear(); // coordinates no longer match
+    this.gridResized();
+    return true;
+  }
+
+  // --- Manual editing & seeding (no model calls) ---
+  // Edits are refused during a generation and on cells with a pending request.
+  private editable(cx: number, cy: number) {
+    if (this.generationInProgress) return false;
+    if (cy < 0 || cy >= this.rows || cx < 0 || cx >= this.cols) return false;
+    return !this.loadingCells.has(this.cellKey(cx, cy));
+  }
+  // A typed value replaces a failure: the cell is no longer retried
+  private writeCell(cx: number, cy: number, text: string) {
+    const cell = this.grid[cy][cx];
+    cell.text = text;
+    delete cell.status;
+    delete cell.error;
+  }
+  editCell(cx: number, cy: number, text: string) {
+    if (!this.editable(cx, cy) || this.grid[cy][cx].text === text) return;
+    this.writeCell(cx, cy, text);
+    this.record(`Edit (${cx},${cy})`);
+    this.changed();
+  }
+  // Paint strokes touch many cells; commitPaint() records the stroke once
+  paintCell(cx: number, cy: number, text: string) {
+    if (!this.editable(cx, cy) || this.grid[cy][cx].text === text) return;
+    this.writeCell(cx, cy, text);
+    this.pendingPaint = true;
+    this.changed();
+  }
+  commitPaint() {
+    if (!this.pendingPaint) return;
+    this.pendingPaint = false;
+    this.record("Paint");
+  }
+  // Set every cell from a value function (fill, random words, clear)
+  seed(valueAt: (x: number, y: number) => string, label: string) {
+    if (this.isBusy()) return;
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.cols; x++) {
+        this.writeCell(x, y, valueAt(x, y));
+      }
+    }
+    this.record(label);
+    this.changed();
+  }
+  getCellText(cx: number, cy: number): string | null {
+    return this.grid[cy]?.[cx]?.text ?? null;
+  }
+  // Recent model updates of a cell, newest first
+  getProvenance(cx: number, cy: number): CellProvenance[] {
+    return this.provenance.get(cx, cy);
+  }
+  getCellError(cx: number, cy: number): string | null {
+    return this.grid[cy]?.[cx]?.error ?? null;
+  }
+  // --- Utility ---
+  protected cellKey(x: number, y: number) {
+    return `${x},${y}`;
+  }
+  protected snapshot(): Cell[][] {
+    return cloneGrid(this.grid);
+  }
+  // True while any model request (single cell or generation) is pending
+  isBusy() {
+    return this.generationInProgress || this.loadingCells.size > 0;
+  }
+  // Neighbors of (cx, cy) read from a snapshot, resolved via the boundary mode
+  private neighborsOf(snapshot: Cell[][], cx: number, cy: number): Neighbor[] {
+    const { mode, edgeValue } = this.boundary;
+    return this.offsets.map(({ dx, dy, label }) => {
+      const rawX = cx + dx;
+      const rawY = cy + dy;
+      // A torus has no edge, so nothing is ever reported as off-grid there
+      const offGrid =
+        mode !== "torus" && isOffGrid(rawX, rawY, this.cols, this.rows);
+      const pos = resolveCoord(rawX, rawY, this.cols, this.rows, mode);
+      const cell = pos ? snapshot[pos.y][pos.x] : { text: edgeValue };
+      return { label, cell, offGrid };
+    });
+  }
+
+  // --- History (undo / redo / timeline) ---
+  // Every recorded change invalidates the retry snapshot unless it passes one on
+  private record(label: string, retrySnapshot: Cell[][] | null = null) {
+    this.retrySnapshot = retrySnapshot;
+    this.history.push({
+      grid: this.grid,
+      cols: this.cols,
+      rows: this.rows,
+      generation: this.generation,
+      label,
+    });
+    this.historyListener?.();
+  }
+  private restore(entry: HistoryEntry | null) {
+    if (!entry) return false;
+    const resized = entry.cols !== this.cols || entry.rows !== this.rows;
+    this.grid = settledGrid(entry.grid);
+    this.retrySnapshot = null;
+    this.cols = entry.cols;
+    this.rows = entry.rows;
+    this.generation = entry.generation;
+    if (resized) this.gridResized();
+    this.changed();
+    this.historyListener?.();
+    return true;
+  }
+  // Navigation is refused while requests are in flight (they'd write into the restored grid)
+  undo() {
+    if (this.isBusy()) return false;
+    return this.restore(this.history.undo());
+  }
+  redo() {
+    if (this.isBusy()) return false;
+    return this.restore(this.history.redo());
+  }
+  jumpTo(index: number) {
+    if (this.isBusy() || index === this.history.position) return false;
+    return this.restore(this.history.goTo(index));
+  }
+  setHistoryDepth(depth: number) {
+    this.history.setMaxDepth(depth);
+    this.historyListener?.();
+  }
+  getHistoryState() {
+    return {
+      position: this.history.position,
+      length: this.history.length,
+      canUndo: this.history.canUndo(),
+      canRedo: this.history.canRedo(),
+      current: this.history.current(),
+    };
+  }
+  // Grid after each generation on the current branch up to the cursor (the last
+  // state recorded per generation number), oldest first; frames of an export
+  generationFrames(): HistoryEntry[] {
+    const entries = this.history.list().slice(0, this.history.position + 1);
+    return entries.filter(
+      (e, i) => entries[i + 1]?.generation !== e.generation
+    );
+  }
+  // The grid as shown now, as a frame of an export
+  currentFrame(): HistoryEntry {
+    return {
+      grid: this.snapshot(),
+      cols: this.cols,
+      rows: this.rows,
+      generation: this.generation,
+      label: `Generation ${this.generation}`,
+      timestamp: Date.now(),
+    };
+  }
+
+  // --- Experiment documents (save / load / share) ---
+  toExperiment(prompt: string, includeHistory = true): Experiment {
+    const exp: Experiment = {
+      version: EXPERIMENT_VERSION,
+      cols: this.cols,
+      rows: this.rows,
+      grid: this.snapshot(),
+      generation: this.generation,
+      prompt,
+      template: this.template,
+      neighborhood: this.getNeighborhood(),
+      boundary: this.getBoundary(),
+    };
+    if (hasFields(this.cellSchema)) exp.cellSchema = this.getCellSchema();
+    if (includeHistory) {
+      exp.history = this.history.list().map((e) => ({ ...e }));
+      exp.historyPosition = this.history.position;
+    }
+    return exp;
+  }
+  // Replaces the history with the experiment's; with a `label` (library rules)
+  // the load is recorded as one more undoable step instead
+  loadExperiment(exp: Experiment, label?: string) {
+    if (this.isBusy()) return false;
+    this.setNeighborhood(exp.neighborhood);
+    this.setBoundary(exp.boundary);
+    this.template = exp.template;
+    this.setCellSchema(exp.cellSchema ?? EMPTY_CELL_SCHEMA);
+    const resized = exp.cols !== this.cols || exp.rows !== this.rows;
+    this.cols = exp.cols;
+    this.rows = exp.rows;
+    this.grid = settledGrid(exp.grid);
+    this.retrySnapshot = null;
+    this.provenance.clear(); // records describe the replaced grid
+    this.generation = exp.generation;
+    if (label) this.record(label);
+    else {
+      this.history.load(exp.history ?? [], exp.historyPosition ?? 0);
+      if (!exp.history?.length) this.record("Loaded");
+    }
+    if (resized) this.gridResized();
+    this.changed();
+    this.historyListener?.();
+    return true;
+  }
+
+  // --- Model evaluation with retries ---
+  // Transient failures back off and retry; throttling also lowers concurrency.
+  // The request's limiter slot is handed back while it waits out a Retry-After.
+  private retryOptions(
+    what: string,
+    signal: AbortSignal,
+    lease: Lease
+  ): RetryOptions {
+    return {
+      maxAttempts: MAX_ATTEMPTS,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      maxRetryAfterMs: MAX_RETRY_AFTER_MS,
+      signal,
+      release: lease.release,
+      reacquire: lease.reacquire,
+      onRetry: (err, attempt, delayMs) => {
+        if (isThrottleError(err)) this.limiter.backoff();
+        console.warn(
+          `Retrying ${what} after attempt ${attempt} in ${Math.round(
+            delayMs
+          )}ms`,
+          err
+        );
+      },
+    };
+  }
+  private async evaluate(
+    prompt: string,
+    snapshot: Cell[][],
+    cx: number,
+    cy: number,
+    signal: AbortSignal,
+    lease: Lease
+  ): Promise<string> {
+    const neighbors = this.neighborsOf(snapshot, cx, cy);
+    const current = snapshot[cy][cx];
+    const template = this.template; // the editors may change these mid-request
+    const cellSchema = this.cellSchema;
+    const started = performance.now();
+    let attempts = 0;
+    // Provenance: the exact prompt kernel() sends, with what came back
+    const trace = (): Omit<CellProvenance, "raw" | "usage" | "model"> => ({
+      timestamp: Date.now(),
+      prompt: composeCellPrompt(
+        template,
+        prompt,
+        neighbors,
+        current,
+        cellSchema
+      ),
+      latencyMs: performance.now() - started,
+      attempts,
+    });
+    try {
+      const result = await withRetry((attempt) => {
+        attempts = attempt;
+        return this.accounted(() =>
+          kernel(
+            this.helper!,
+            prompt,
+            neighbors,
+            current,
+            template,
+            signal,
+            cellSchema
+          )
+        );
+      }, this.retryOptions(`cell (${cx},${cy})`, signal, lease));
+      this.limiter.recover();
+      this.trackUsage(result, 1, performance.now() - started);
+      this.provenance.record(cx, cy, {
+        ...trace(),
+        raw: result.raw,
+        model: result.model,
+        usage: result.usage,
+        cached: result.cached,
+        value: result.value,
+      });
+      return result.value;
+    } catch (e) {
+      if (!signal.aborted)
+        this.provenance.record(cx, cy, {
+          ...trace(),
+          raw: e instanceof ModelOutputError ? e.raw : "",
+          model: this.helper!.model,
+          usage: emptyUsage(),
+          error: e instanceof Error ? e.message : String(e),
+        });
+      throw e;
+    }
+  }
+  // One request for a tile of cells; resolves with the values it got ("x,y" keys)
+  private async evaluateBatch(
+    prompt: string,
+    snapshot: Cell[][],
+    tile: Coord[],
+    signal: AbortSignal,
+    lease: Lease
+  ): Promise<Map<string, string>> {
+    const cells: BatchCell[] = tile.map(({ x, y }) => ({
+      x,
+      y,
+      current: snapshot[y][x],
+      neighbors: this.neighborsOf(snapshot, x, y),
+    }));
+    const template = this.template; // the editors may change these mid-request
+    const cellSchema = this.cellSchema;
+    const batchPrompt = composeBatchPrompt(template, prompt, cells, cellSchema);
+    const started = performance.now();
+    let attempts = 0;
+    const result = await withRetry((attempt) => {
+      attempts = attempt;
+      return this.accounted(() =>
+        batchKernel(this.helper!, prompt, cells, template, signal, cellSchema)
+      );
+    }, this.retryOptions(`batch of ${cells.length} cells`, signal, lease));
+    this.limiter.recover();
+    this.trackUsage(result, result.value.size, performance.now() - started);
+    // Cells missing from the answer get their own record from the fallback
+    for (const [key, value] of result.value) {
+      const [x, y] = key.split(",").map(Number);
+      this.provenance.record(x, y, {
+        timestamp: Date.now(),
+        prompt: batchPrompt,
+        raw: result.raw,
+        model: result.model,
+        latencyMs: performance.now() - started,
+        attempts,
+        usage: result.usage,
+        cached: result.cached,
+        batchSize: cells.length,
+        value,
+      });
+    }
+    if (!result.cached) {
+      // Price the same cells as individual requests by prompt length
+      const batchLength = batchPrompt.length;
+      const singleLength = cells.reduce(
+        (sum, c) =>
+          sum +
+          composeCellPrompt(
+            template,
+            prompt,
+            c.neighbors,
+            c.current,
+            cellSchema
+          ).length,
+        0
+      );
+      const b = this.batchStats;
+      b.requests++;
+      b.cells += result.value.size;
+      b.cost += result.usage.cost;
+      b.estimatedSingleCost +=
+        (result.usage.cost * singleLength * result.value.size) /
+        (batchLength * cells.length);
+    }
+    return result.value;
+  }
+  // One provider call; a failed call's usage (see withUsage) counts as well
+  private async accounted<T>(call: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+      return await call();
+    } catch (e) {
+      const usage = failureUsage(e);
+      if (usage) this.trackUsage({ usage }, 0, performance.now() - started);
+      throw e;
+    }
+  }
+  // Account a billed request; crossing the spend limit stops the generation
+  private trackUsage(
+    result: { usage: TokenUsage; cached?: boolean },
+    cells: number,
+    latencyMs: number
+  ) {
+    this.usage.record(result.usage, latencyMs, cells, !!result.cached);
+    if (this.usage.limitReached() && !this.abort.signal.aborted) {
+      console.warn("Spend limit reached; cancelling pending requests");
+      this.cancel();
+    }
+  }
+  // Pending requests are tracked both in loadingCells and on the cell itself
+  private markPending(cx: number, cy: number) {
+    this.loadingCells.add(this.cellKey(cx, cy));
+    this.grid[cy][cx].status = "pending";
+  }
+  private settle(cx: number, cy: number) {
+    this.loadingCells.delete(this.cellKey(cx, cy));
+    const cell = this.grid[cy]?.[cx];
+    if (cell?.status === "pending") cell.status = cell.error ? "error" : "ok";
+  }
+  // Success clears any previous failure
+  private applyResult(cx: number, cy: number, text: string) {
+    const cell = this.grid[cy][cx];
+    cell.text = text;
+    cell.status = "ok";
+    delete cell.error;
+  }
+  // Failure keeps the previous text so neighbors never read an error message
+  private applyFailure(cx: number, cy: number, e: unknown) {
+    const cell = this.grid[cy][cx];
+    cell.status = "error";
+    cell.error = e instanceof Error ? e.message : String(e);
+  }
+
+  // --- Cancellation ---
+  // Abort in-flight requests and drop queued ones; untouched cells keep their values
+  cancel() {
+    this.abort.abort();
+    this.abort = new AbortController();
+    this.limiter.drain();
+    this.changed();
+  }
+
+  // --- Single cell update ---
+  async updateSingleCell(
+    cx: number,
+    cy: number,
+    prompt: string = DEFAULT_PROMPT
+  ) {
+    if (this.generationInProgress) return;
+    if (!this.helper || this.usage.limitReached()) return;
+    if (cy < 0 || cy >= this.rows || cx < 0 || cx >= this.cols) return;
+    const key = this.cellKey(cx, cy); // compute early
+    // Prevent starting another request for the same cell while one is in flight
+    if (this.loadingCells.has(key)) return;
+    const signal = this.abort.signal;
+    const snapshot = this.snapshot();
+    this.markPending(cx, cy);
+    this.changed();
+    let lease: Lease;
+    try {
+      lease = await this.limiter.lease(signal);
+    } catch {
+      // Cancelled while queued
+      this.settle(cx, cy);
+      this.changed();
+      return;
+    }
+    let changed = false;
+    try {
+      const newText = await this.evaluate(
+        prompt,
+        snapshot,
+        cx,
+        cy,
+        signal,
+        lease
+      );
+      this.applyResult(cx, cy, newText);
+      changed = true;
+    } catch (e) {
+      // A cancelled request leaves the cell untouched
+      if (!signal.aborted) {
+        console.error("Single cell kernel error", e);
+        this.applyFailure(cx, cy, e);
+        changed = true;
+      }
+    } finally {
+      this.settle(cx, cy);
+      this.retrySnapshot = null; // the grid no longer matches that generation
+      if (changed) this.record(`Cell (${cx},${cy})`);
+      this.changed();
+      this.usageChanged();
+      lease.release();
+    }
+  }
+
+  // --- Batch evaluation (generations & retries) ---
+  // Every cell reads neighbors from the same snapshot; order is randomized.
+  // With a batch size above 1, tiles of cells share one request each.
+  // Returns how many cells were written (results or failures).
+  private async evaluateCells(
+    coords: Coord[],
+    snapshot: Cell[][],
+    prompt: string,
+    signal: AbortSignal
+  ): Promise<number> {
+    const tiles =
+      this.batchSize > 1
+        ? tileCoords(coords, this.batchSize)
+        : coords.map((c) => [c]);
+    // Fisher-Yates shuffle for random order each generation
+    for (let i = tiles.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [tiles[i], tiles[j]] = [tiles[j], tiles[i]];
+    }
+    // Launch tasks in randomized order
+    const counts = await Promise.all(
+      tiles.map((tile) =>
+        tile.length === 1
+          ? this.runCell(tile[0], snapshot, prompt, signal)
+          : this.runTile(tile, snapshot, prompt, signal)
+      )
+    );
+    return counts.reduce((a, b) => a + b, 0);
+  }
+
+  private async runCell(
+    { x: cx, y: cy }: Coord,
+    snapshot: Cell[][],
+    prompt: string,
+    signal: AbortSignal
+  ): Promise<number> {
+    let lease: Lease;
+    try {
+      lease = await this.limiter.lease(signal);
+    } catch {
+      this.settle(cx, cy); // cancelled while queued (may be a batch leftover)
+      return 0;
+    }
+    this.markPending(cx, cy);
+    this.changed();
+    try {
+      const newText = await this.evaluate(
+        prompt,
+        snapshot,
+        cx,
+        cy,
+        signal,
+        lease
+      );
+      this.applyResult(cx, cy, newText);
+      return 1;
+    } catch (e) {
+      // A cancelled request leaves the cell untouched
+      if (signal.aborted) return 0;
+      console.error("Kernel error", e);
+      this.applyFailure(cx, cy, e);
+      return 1;
+    } finally {
+      this.settle(cx, cy);
+      this.changed();
+      this.usageChanged();
+      lease.release();
+    }
+  }
+
+  // Cells missing from (or malformed in) the batch answer, or all of them if
+  // the batch request fails outright, fall back to one request per cell.
+  private async runTile(
+    tile: Coord[],
+    snapshot: Cell[][],
+    prompt: string,
+    signal: AbortSignal
+  ): Promise<number> {
+    let lease: Lease;
+    try {
+      lease = await this.limiter.lease(signal);
+    } catch {
+      return 0; // cancelled while queued
+    }
+    for (const { x, y } of tile) this.markPending(x, y);
+    this.changed();
+    let values = new Map<string, string>();
+    try {
+      values = await this.evaluateBatch(prompt, snapshot, tile, signal, lease);
+    } catch (e) {
+      if (!signal.aborted)
+        console.warn("Batch failed; falling back to per-cell requests", e);
+    } finally {
+      lease.release();
+    }
+    let updated = 0;
+    const missing: Coord[] = [];
+    for (const c of tile) {
+      const text = values.get(`${c.x},${c.y}`);
+      if (text !== undefined) {
+        this.applyResult(c.x, c.y, text);
+        this.settle(c.x, c.y);
+        updated++;
+      } else if (signal.aborted) this.settle(c.x, c.y);
+      else missing.push(c);
+    }
+    this.changed();
+    this.usageChanged();
+    const fallback = await Promise.all(
+      missing.map((c) => this.runCell(c, snapshot, prompt, signal))
+    );
+    return fallback.reduce((a, b) => a + b, updated);
+  }
+
+  // --- Generation step (all cells) ---
+  // Resolves false when cancelled part-way (finished cells keep their new values).
+  // Refused (false) without a provider or while other requests are in flight.
+  async nextGeneration(prompt: string): Promise<boolean> {
+    if (!this.helper || this.isBusy() || this.usage.limitReached())
+      return false;
+    this.generationInProgress = true;
+    const signal = this.abort.signal;
+    const snapshot = this.snapshot();
+    let updated = 0;
+    this.usage.beginGeneration();
+    try {
+      // Collect all cell coordinates first
+      const coords: Coord[] = [];
+      for (let y = 0; y < this.rows; y++) {
+        for (let x = 0; x < this.cols; x++) {
+          coords.push({ x, y });
+        }
+      }
+      updated = await this.evaluateCells(coords, snapshot, prompt, signal);
+    } finally {
+      this.generationInProgress = false;
+      this.usage.endGeneration(this.generation + 1);
+      this.usageChanged();
+    }
+    // Failed cells can be retried against the same pre-generation state
+    if (signal.aborted) {
+      if (updated)
+        this.record(`Generation ${this.generation + 1} (stopped)`, snapshot);
+      return false;
+    }
+    this.generation++;
+    this.record(`Generation ${this.generation}`, snapshot);
+    return true;
+  }
+
+  // --- Failed cells ---
+  failedCount() {
+    let n = 0;
+    for (const row of this.grid)
+      for (const c of row) if (c.status === "error") n++;
+    return n;
+  }
+  // Re-run failed cells; right after a generation they see that generation's
+  // input snapshot, otherwise the current grid.
+  async retryFailed(prompt: string): Promise<boolean> {
+    if (this.isBusy() || !this.helper || this.usage.limitReached())
+      return false;
+    const coords: Coord[] = [];
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.cols; x++) {
+        if (this.grid[y][x].status === "error") coords.push({ x, y });
+      }
+    }
+    if (!coords.length) return false;
+    this.generationInProgress = true;
+    const signal = this.abort.signal;
+    const snapshot = this.retrySnapshot ?? this.snapshot();
+    let updated = 0;
+    try {
+      updated = await this.evaluateCells(coords, snapshot, prompt, signal);
+    } finally {
+      this.generationInProgress = false;
+    }
+    if (updated)
+      this.record(`Retry ${coords.length} failed`, this.retrySnapshot);
+    return !signal.aborted;
+  }
+}
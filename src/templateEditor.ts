@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { DEFAULT_TEMPLATE, placeholderToken } from "./kernel";
+
+// Cell prompt template support: placeholder checks, syntax highlighting and
+// named presets (built-ins plus user presets kept in localStorage).
+
+// Placeholders filled by composeCellPrompt() besides per-neighbor tokens
+export const TEMPLATE_PLACEHOLDERS = [
+  "USER_PROMPT",
+  "CURRENT",
+  "NEIGHBORS",
+  "OFF_GRID",
+];
+
+const PLACEHOLDER_RE = /{{([^{}]*)}}/g;
+
+export interface TemplateIssue {
+  level: "warning" | "info";
+  message: string;
+}
+
+// Every {{TOKEN}} the template would substitute for the given neighbor labels
+function knownTokens(labels: string[]): Set<string> {
+  return new Set([...TEMPLATE_PLACEHOLDERS, ...labels.map(placeholderToken)]);
+}
+
+export function validateTemplate(
+  template: string,
+  labels: string[]
+): TemplateIssue[] {
+  const known = knownTokens(labels);
+  const labelTokens = new Set(labels.map(placeholderToken));
+  const issues: TemplateIssue[] = [];
+  const seen = new Set<string>();
+  for (const m of template.matchAll(PLACEHOLDER_RE)) {
+    const token = m[1];
+    if (known.has(token) || seen.has(token)) continue;
+    seen.add(token);
+    const normalized = token
+      .trim()
+      .toUpperCase()
+      .replace(/[-\s]+/g, "_");
+    issues.push({
+      level: "warning",
+      message: known.has(normalized)
+        ? `{{${token}}} is not substituted; write {{${normalized}}}`
+        : `Unknown placeholder {{${token}}} is sent to the model verbatim`,
+    });
+  }
+  const used = new Set(
+    Array.from(template.matchAll(PLACEHOLDER_RE), (m) => m[1])
+  );
+  if (!used.has("USER_PROMPT"))
+    issues.push({
+      level: "warning",
+      message: "Missing {{USER_PROMPT}}: the rule never reaches the model",
+    });
+  if (!used.has("NEIGHBORS") && ![...used].some((t) => labelTokens.has(t)))
+    issues.push({
+      level: "warning",
+      message:
+        "No {{NEIGHBORS}} or per-neighbor placeholder: the model sees no neighbor values",
+    });
+  if (!used.has("CURRENT"))
+    issues.push({
+      level: "info",
+      message: "The cell's own value is not included ({{CURRENT}})",
+    });
+  if (!/resultValue/.test(template))
+    issues.push({
+      level: "info",
+      message: 'No mention of the { "resultValue": string } answer shape',
+    });
+  return issues;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// HTML for the highlight layer behind the template textarea
+export function highlightTemplate(template: string, labels: string[]): string {
+  const known = knownTokens(labels);
+  let html = "";
+  let last = 0;
+  for (const m of template.matchAll(PLACEHOLDER_RE)) {
+    const start = m.index ?? 0;
+    const cls = known.has(m[1]) ? "ph" : "ph unknown";
+    html += escapeHtml(template.slice(last, start));
+    html += `<mark class="${cls}">${escapeHtml(m[0])}</mark>`;
+    last = start + m[0].length;
+  }
+  // Trailing newline keeps the layer as tall as the textarea content
+  return html + escapeHtml(template.slice(last)) + "\n";
+}
+
+export function renderTemplateIssues(
+  container: HTMLElement,
+  issues: TemplateIssue[]
+) {
+  container.innerHTML = "";
+  for (const issue of issues) {
+    const li = document.createElement("li");
+    li.className = issue.level;
+    li.textContent = issue.message;
+    container.appendChild(li);
+  }
+}
+
+// --- Presets ---
+export interface TemplatePreset {
+  name: string;
+  template: string;
+  builtIn?: boolean;
+}
+
+const PRESETS_KEY = "template_presets";
+
+export const BUILT_IN_TEMPLATES: TemplatePreset[] = [
+  { name: "Default", template: DEFAULT_TEMPLATE, builtIn: true },
+  {
+    name: "Compact",
+    template:
+      'Rule: {{USER_PROMPT}}\nCell: {{CURRENT}}\nNeighbors:\n{{NEIGHBORS}}\nAnswer with JSON { "resultValue": string }.',
+    builtIn: true,
+  },
+  {
+    name: "Cardinal slots",
+    template:
+      'Rule: {{USER_PROMPT}}\n\nThis cell: {{CURRENT}}\nAbove: {{TOP}}\nBelow: {{BOTTOM}}\nLeft: {{LEFT}}\nRight: {{RIGHT}}\n\nReturn strictly JSON with shape { "resultValue": string } where resultValue is the new text for this cell.',
+    builtIn: true,
+  },
+  {
+    name: "Edge aware",
+    template:
+      'Prompt: {{USER_PROMPT}}\n\nCurrent value: {{CURRENT}}\n\nNeighbor values are:\n\n{{NEIGHBORS}}\n\nNeighbors beyond the grid edge: {{OFF_GRID}}\n\nReturn strictly JSON with shape { "resultValue": string } where resultValue is the new text for the cell.',
+    builtIn: true,
+  },
+];
+
+const PresetListSchema = z.array(
+  z.object({ name: z.string().min(1), template: z.string() })
+);
+
+export function loadTemplatePresets(): TemplatePreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    const parsed = PresetListSchema.safeParse(raw ? JSON.parse(raw) : []);
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTemplatePresets(presets: TemplatePreset[]) {
+  localStorage.setItem(
+    PRESETS_KEY,
+    JSON.stringify(presets.map(({ name, template }) => ({ name, template })))
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { Autoplay, AutoplayHooks } from "../autoplay";
+
+const opts = { delayMs: 0, maxGenerations: 3, budget: 0, maxPeriod: 4 };
+
+function counter(): AutoplayHooks {
+  let n = 0;
+  return {
+    step: async () => {
+      n++;
+      return true;
+    },
+    stateKey: () => String(n),
+    spent: () => 0,
+  };
+}
+
+describe("Autoplay", () => {
+  it("stops at the generation limit", async () => {
+    const autoplay = new Autoplay();
+    const result = await autoplay.run(opts, counter());
+    expect(result).toMatchObject({ reason: "limit", generations: 3 });
+    expect(autoplay.running).toBe(false);
+  });
+
+  it("ends the run when a hook throws", async () => {
+    const autoplay = new Autoplay();
+    const failing: AutoplayHooks = {
+      ...counter(),
+      step: async () => {
+        throw new Error("step failed");
+      },
+    };
+    await expect(autoplay.run(opts, failing)).rejects.toThrow("step failed");
+    expect(autoplay.running).toBe(false);
+
+    const broken = { ...counter(), stateKey: () => JSON.parse("{") };
+    await expect(autoplay.run(opts, broken)).rejects.toThrow(SyntaxError);
+    expect(autoplay.running).toBe(false);
+
+    // Still usable afterwards
+    const result = await autoplay.run(opts, counter());
+    expect(result.reason).toBe("limit");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { luminance, parseColor, parseHexColor } from "../cellRenderers";
+
+describe("parseHexColor", () => {
+  it("parses 6- and 8-digit colors", () => {
+    expect(parseHexColor("#1d3557")).toEqual({ r: 29, g: 53, b: 87 });
+    expect(parseHexColor("#FF000080")).toEqual({ r: 255, g: 0, b: 0, a: 128 });
+  });
+
+  it("expands 3- and 4-digit shorthand", () => {
+    expect(parseHexColor("#f80")).toEqual({ r: 255, g: 136, b: 0 });
+    expect(parseHexColor("#f80c")).toEqual({ r: 255, g: 136, b: 0, a: 204 });
+  });
+
+  it("ignores surrounding whitespace", () => {
+    expect(parseHexColor("  #000\n")).toEqual({ r: 0, g: 0, b: 0 });
+  });
+
+  it("rejects anything else", () => {
+    for (const raw of [
+      undefined,
+      "",
+      "#",
+      "fff",
+      "#ff",
+      "#fffff",
+      "#fffffff",
+      "#ggg",
+      "#ff0000 red",
+      "red",
+    ])
+      expect(parseHexColor(raw)).toBeNull();
+  });
+});
+
+describe("parseColor", () => {
+  it("handles hex without a DOM", () => {
+    expect(parseColor(" #fff ")).toEqual({ r: 255, g: 255, b: 255 });
+  });
+
+  it("returns null for text that is not a color", () => {
+    expect(parseColor("hello world")).toBeNull();
+    expect(parseColor("#nothex")).toBeNull();
+  });
+});
+
+describe("luminance", () => {
+  it("orders black below white", () => {
+    expect(luminance({ r: 0, g: 0, b: 0 })).toBeCloseTo(0);
+    expect(luminance({ r: 255, g: 255, b: 255 })).toBeCloseTo(1);
+    expect(luminance({ r: 0, g: 255, b: 0 })).toBeGreaterThan(
+      luminance({ r: 0, g: 0, b: 255 })
+    );
+  });
+});
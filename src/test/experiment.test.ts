@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseExperiment } from "../experiment";
+import { Simulation } from "../simulation";
+import { UsageTracker } from "../usage";
+
+// A valid 2x2 document with two history entries (seed + an edit)
+function document() {
+  const sim = new Simulation(2, 2, new UsageTracker(false));
+  sim.seed(() => "a", "Seed");
+  sim.editCell(0, 0, "b");
+  return JSON.parse(JSON.stringify(sim.toExperiment("rule")));
+}
+
+describe("parseExperiment", () => {
+  it("accepts an exported experiment with its history", () => {
+    const exp = parseExperiment(document());
+    expect(exp.history?.length).toBeGreaterThan(1);
+    expect(exp.grid[0][0].text).toBe("b");
+  });
+
+  it("rejects a history entry whose grid does not match its size", () => {
+    const raw = document();
+    raw.history[0] = { ...raw.history[0], cols: 3, rows: 3 };
+    expect(() => parseExperiment(raw)).toThrow(
+      "Invalid experiment: history.0 grid does not match cols/rows"
+    );
+  });
+
+  it("rejects a history position past the last entry", () => {
+    const raw = document();
+    raw.historyPosition = raw.history.length;
+    expect(() => parseExperiment(raw)).toThrow(
+      "Invalid experiment: historyPosition is past the end of history"
+    );
+    raw.historyPosition = raw.history.length - 1;
+    expect(parseExperiment(raw).historyPosition).toBe(raw.history.length - 1);
+  });
+});
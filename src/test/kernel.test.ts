@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  batchKernel,
+  composeBatchPrompt,
+  composeCellPrompt,
+  kernel,
+  BatchCell,
+  Neighbor,
+} from "../kernel";
+import { extractJson, ModelOutputError } from "../llmProvider";
+import { ScriptedProvider } from "./scriptedProvider";
+
+const neighbors: Neighbor[] = [
+  { label: "top", cell: { text: "A" } },
+  { label: "left", cell: { text: "B" } },
+  { label: "right", cell: { text: "C" }, offGrid: true },
+];
+
+describe("extractJson", () => {
+  it("parses a bare object", () => {
+    expect(extractJson('{"resultValue":"x"}')).toEqual({ resultValue: "x" });
+  });
+
+  it("ignores prose and code fences around the object", () => {
+    const msg =
+      'Sure! Here it is:\n```json\n{"resultValue": "red"}\n```\nDone.';
+    expect(extractJson(msg)).toEqual({ resultValue: "red" });
+  });
+
+  it("keeps nested objects and braces inside strings", () => {
+    const msg = 'x {"a": {"b": "}{"}, "c": [1, {"d": 2}]} y';
+    expect(extractJson(msg)).toEqual({ a: { b: "}{" }, c: [1, { d: 2 }] });
+  });
+
+  it("rejects text without an object", () => {
+    expect(() => extractJson("no json here")).toThrow(ModelOutputError);
+    expect(() => extractJson("[1, 2]")).toThrow(ModelOutputError);
+    expect(() => extractJson("} backwards {")).toThrow(ModelOutputError);
+  });
+
+  it("rejects malformed JSON and keeps the raw answer", () => {
+    const msg = '{"resultValue": "unterminated}';
+    try {
+      extractJson(msg);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ModelOutputError);
+      expect((e as ModelOutputError).raw).toBe(msg);
+      expect((e as Error).message).toMatch(/^Failed to parse JSON/);
+    }
+  });
+
+  it("spans from the first to the last brace (two objects do not parse)", () => {
+    expect(() => extractJson('{"a": 1} and {"b": 2}')).toThrow(
+      ModelOutputError
+    );
+  });
+});
+
+describe("composeCellPrompt", () => {
+  it("fills the list, per-neighbor and off-grid placeholders", () => {
+    const prompt = composeCellPrompt(
+      "{{USER_PROMPT}}|{{CURRENT}}|{{TOP}}{{LEFT}}|{{OFF_GRID}}\n{{NEIGHBORS}}",
+      "rule",
+      neighbors,
+      { text: "me" }
+    );
+    expect(prompt).toBe(
+      "rule|me|AB|right\n- top: A\n- left: B\n- right: C (off-grid)"
+    );
+  });
+});
+
+describe("kernel", () => {
+  it("returns the scripted value for the cell's neighborhood", async () => {
+    const provider = new ScriptedProvider(
+      ({ current, neighbors }) => current + Object.values(neighbors).join("")
+    );
+    const res = await kernel(provider, "concat", neighbors, { text: "me" });
+    expect(res.value).toBe("meABC");
+    expect(res.usage.total).toBeGreaterThan(0);
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0].name).toBe("cell_result");
+    expect(provider.calls[0].prompt).toContain("concat");
+  });
+
+  it("accepts JSON wrapped in prose", async () => {
+    const provider = new ScriptedProvider(() => ({
+      raw: 'The answer is {"resultValue": "ok"} as requested.',
+    }));
+    const res = await kernel(provider, "", neighbors, { text: "" });
+    expect(res.value).toBe("ok");
+  });
+
+  it("rejects answers that are not JSON or miss resultValue", async () => {
+    const noJson = new ScriptedProvider(() => ({ raw: "I cannot do that." }));
+    await expect(kernel(noJson, "", neighbors, { text: "" })).rejects.toThrow(
+      ModelOutputError
+    );
+    const wrongShape = new ScriptedProvider(() => ({ raw: '{"value": "x"}' }));
+    await expect(
+      kernel(wrongShape, "", neighbors, { text: "" })
+    ).rejects.toThrow(/resultValue/);
+  });
+});
+
+describe("batchKernel", () => {
+  const cells: BatchCell[] = [
+    { x: 0, y: 0, current: { text: "a" }, neighbors },
+    { x: 1, y: 0, current: { text: "b" }, neighbors },
+  ];
+
+  it("keys answers by coordinates", async () => {
+    const provider = new ScriptedProvider(({ current }) => current + "!");
+    const res = await batchKernel(provider, "", cells);
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0].name).toBe("cell_batch");
+    expect([...res.value]).toEqual([
+      ["0,0", "a!"],
+      ["1,0", "b!"],
+    ]);
+  });
+
+  it("drops malformed entries and cells that were not requested", async () => {
+    const entries: Record<string, unknown> = {
+      "1,0": { x: 1, y: 0, resultValue: 42 },
+      "2,0": { x: 5, y: 5, resultValue: "stray" },
+      "3,0": "garbage",
+    };
+    const provider = new ScriptedProvider(({ x, y }) => {
+      const entry = entries[`${x},${y}`];
+      return entry === undefined ? "kept" : { entry };
+    });
+    const four = [0, 1, 2, 3].map((x) => ({ ...cells[0], x }));
+    const res = await batchKernel(provider, "", four);
+    expect([...res.value]).toEqual([["0,0", "kept"]]);
+  });
+
+  it("builds every cell block from the template", () => {
+    const prompt = composeBatchPrompt(
+      "Rule {{USER_PROMPT}} on {{CURRENT}} next to {{TOP}}",
+      "grow",
+      cells
+    );
+    expect(prompt).toContain("### Cell (0,0)\nRule grow on a next to A");
+    expect(prompt).toContain("### Cell (1,0)\nRule grow on b next to A");
+    expect(prompt).toContain('"results"');
+  });
+});
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimiter } from "../rateLimiter";
+
+// Acquires `n` slots, recording the (fake) time each one was granted
+function acquireAll(limiter: RateLimiter, n: number) {
+  const granted: number[] = [];
+  for (let i = 0; i < n; i++)
+    limiter.acquire().then(() => {
+      granted.push(Date.now());
+    });
+  return { granted };
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("never grants more slots than its concurrency", async () => {
+    const limiter = new RateLimiter(2, 0);
+    const { granted } = acquireAll(limiter, 5);
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(2);
+    expect(limiter.pending).toBe(3);
+
+    limiter.release();
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(3);
+
+    limiter.release();
+    limiter.release();
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(5);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it("spaces task starts by the minimum interval", async () => {
+    const limiter = new RateLimiter(10, 100);
+    const start = Date.now();
+    const { granted } = acquireAll(limiter, 4);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([start]);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(granted).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toHaveLength(2);
+
+    await vi.runAllTimersAsync();
+    expect(granted.map((t) => t - start)).toEqual([0, 100, 200, 300]);
+  });
+
+  it("applies both limits together", async () => {
+    const limiter = new RateLimiter(1, 50);
+    const start = Date.now();
+    const { granted } = acquireAll(limiter, 2);
+    await vi.advanceTimersByTimeAsync(0);
+    // Released late: the interval has long passed, so no extra wait
+    await vi.advanceTimersByTimeAsync(200);
+    expect(granted).toHaveLength(1);
+    limiter.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted.map((t) => t - start)).toEqual([0, 200]);
+  });
+
+  it("drops aborted waiters without taking a slot", async () => {
+    const limiter = new RateLimiter(1, 0);
+    await limiter.acquire();
+    const abort = new AbortController();
+    const waiting = limiter.acquire(abort.signal);
+    const next = acquireAll(limiter, 1);
+    expect(limiter.pending).toBe(2);
+
+    abort.abort(new Error("cancelled"));
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(limiter.pending).toBe(1);
+
+    limiter.release();
+    await vi.runAllTimersAsync();
+    expect(next.granted).toHaveLength(1);
+  });
+
+  it("rejects right away when the signal is already aborted", async () => {
+    const limiter = new RateLimiter(1, 0);
+    const abort = new AbortController();
+    abort.abort(new Error("too late"));
+    await expect(limiter.acquire(abort.signal)).rejects.toThrow("too late");
+    expect(limiter.pending).toBe(0);
+  });
+
+  it("drain rejects queued waiters but keeps active slots", async () => {
+    const limiter = new RateLimiter(2, 1000);
+    await limiter.acquire();
+    const queued = [limiter.acquire(), limiter.acquire()]; // waiting on the interval
+    limiter.drain(new Error("drained"));
+    for (const q of queued) await expect(q).rejects.toThrow("drained");
+    expect(limiter.pending).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+
+    // Only the first slot is still taken
+    const { granted } = acquireAll(limiter, 2);
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(1);
+    limiter.release();
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(2);
+  });
+
+  it("halves concurrency on backoff and recovers one slot per streak", async () => {
+    const limiter = new RateLimiter(8, 0);
+    limiter.backoff();
+    expect(limiter.concurrency).toBe(4);
+    limiter.backoff();
+    limiter.backoff();
+    limiter.backoff();
+    expect(limiter.concurrency).toBe(1);
+
+    for (let i = 0; i < 4; i++) limiter.recover();
+    expect(limiter.concurrency).toBe(1);
+    limiter.recover();
+    expect(limiter.concurrency).toBe(2);
+
+    // A throttle mid-streak resets it
+    for (let i = 0; i < 4; i++) limiter.recover();
+    limiter.backoff();
+    for (let i = 0; i < 4; i++) limiter.recover();
+    expect(limiter.concurrency).toBe(1);
+
+    for (let i = 0; i < 100; i++) limiter.recover();
+    expect(limiter.concurrency).toBe(8);
+  });
+
+  it("lets a lease hand its slot back and take it again", async () => {
+    const limiter = new RateLimiter(1, 0);
+    const lease = await limiter.lease();
+    const { granted } = acquireAll(limiter, 1);
+    lease.release();
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(1);
+
+    let back = false;
+    lease.reacquire().then(() => {
+      back = true;
+    });
+    await vi.runAllTimersAsync();
+    expect(back).toBe(false);
+    limiter.release();
+    await vi.runAllTimersAsync();
+    expect(back).toBe(true);
+
+    // Releasing twice frees only the one slot the lease holds
+    lease.release();
+    lease.release();
+    acquireAll(limiter, 2);
+    await vi.runAllTimersAsync();
+    expect(limiter.pending).toBe(1);
+  });
+
+  it("grants queued waiters when a recovered slot opens", async () => {
+    const limiter = new RateLimiter(2, 0);
+    limiter.backoff();
+    const { granted } = acquireAll(limiter, 2);
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(1);
+    for (let i = 0; i < 5; i++) limiter.recover();
+    await vi.runAllTimersAsync();
+    expect(granted).toHaveLength(2);
+  });
+});
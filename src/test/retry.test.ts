@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  isTransientError,
+  RateLimitedError,
+  retryAfterMs,
+  withRetry,
+} from "../retry";
+import { ModelOutputError } from "../llmProvider";
+
+// 429 with a Retry-After header, as the OpenAI SDK reports it
+function throttled(retryAfter: string) {
+  return Object.assign(new Error("rate limited"), {
+    status: 429,
+    headers: { "retry-after": retryAfter },
+  });
+}
+
+describe("isTransientError", () => {
+  it("retries network failures but not programming errors", () => {
+    expect(isTransientError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isTransientError(new TypeError("NetworkError when fetching"))).toBe(
+      true
+    );
+    const connection = Object.assign(new Error("Connection error."), {
+      name: "APIConnectionError",
+    });
+    expect(isTransientError(connection)).toBe(true);
+    expect(
+      isTransientError(
+        new TypeError("Cannot read properties of null (reading 'model')")
+      )
+    ).toBe(false);
+    expect(isTransientError("offline")).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("waits out the full server-requested time without the slot", async () => {
+    const events: string[] = [];
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(throttled("30"))
+      .mockResolvedValue("ok");
+    const run = withRetry(fn, {
+      maxAttempts: 3,
+      baseDelayMs: 100,
+      maxDelayMs: 2000,
+      maxRetryAfterMs: 60_000,
+      onRetry: (_e, _attempt, ms) => events.push(`wait ${ms}`),
+      release: () => events.push("release"),
+      reacquire: async () => {
+        events.push("reacquire");
+      },
+    });
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(run).resolves.toBe("ok");
+    expect(events).toEqual(["wait 30000", "release", "reacquire"]);
+  });
+
+  it("fails fast when the server asks for more than maxRetryAfterMs", async () => {
+    expect(retryAfterMs(throttled("3600"))).toBe(3_600_000);
+    const fn = vi.fn().mockRejectedValue(throttled("3600"));
+    const run = withRetry(fn, {
+      maxAttempts: 3,
+      baseDelayMs: 100,
+      maxDelayMs: 2000,
+      maxRetryAfterMs: 60_000,
+    });
+    await expect(run).rejects.toThrow(RateLimitedError);
+    await expect(run).rejects.toThrow("Rate limited, retry after 3600s");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxAttempts and on permanent errors", async () => {
+    const flaky = vi.fn().mockRejectedValue(new ModelOutputError("bad", ""));
+    const run = withRetry(flaky, {
+      maxAttempts: 3,
+      baseDelayMs: 10,
+      maxDelayMs: 100,
+    });
+    const settled = expect(run).rejects.toThrow("bad");
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(flaky).toHaveBeenCalledTimes(3);
+
+    const denied = vi
+      .fn()
+      .mockRejectedValue(Object.assign(new Error("no"), { status: 401 }));
+    await expect(
+      withRetry(denied, { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 100 })
+    ).rejects.toThrow("no");
+    expect(denied).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BUILT_IN_RULES,
+  LibraryRule,
+  loadUserRules,
+  saveUserRules,
+} from "../ruleLibrary";
+
+const KEY = "rule_library";
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (k: string) => items.get(k) ?? null,
+    setItem: (k: string, v: string) => void items.set(k, v),
+    removeItem: (k: string) => void items.delete(k),
+  };
+}
+
+const rule = (name: string): LibraryRule => ({
+  name,
+  description: "",
+  tags: ["test"],
+  setup: BUILT_IN_RULES[0].setup,
+});
+
+const stored = () => JSON.parse(localStorage.getItem(KEY)!) as unknown[];
+
+describe("user rules", () => {
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", memoryStorage());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips saved rules", () => {
+    saveUserRules([rule("a"), rule("b")]);
+    expect(loadUserRules().map((r) => r.name)).toEqual(["a", "b"]);
+  });
+
+  it("skips unreadable entries but keeps the readable ones", () => {
+    const future = { name: "future", setup: { version: 99 } };
+    localStorage.setItem(KEY, JSON.stringify([future, rule("ok")]));
+    expect(loadUserRules().map((r) => r.name)).toEqual(["ok"]);
+  });
+
+  it("never drops unreadable entries when saving", () => {
+    const future = { name: "future", setup: { version: 99 } };
+    localStorage.setItem(KEY, JSON.stringify([future, rule("old")]));
+    saveUserRules([...loadUserRules().filter((r) => r.name !== "old")]);
+    expect(stored()).toEqual([future]);
+    saveUserRules([...loadUserRules(), rule("new")]);
+    expect(stored()).toHaveLength(2);
+    expect(stored()[0]).toEqual(future);
+  });
+
+  it("replaces an unreadable entry saved under the same name", () => {
+    localStorage.setItem(KEY, JSON.stringify([{ name: "x", broken: true }]));
+    saveUserRules([rule("x")]);
+    expect(stored()).toHaveLength(1);
+    expect(loadUserRules().map((r) => r.name)).toEqual(["x"]);
+  });
+});
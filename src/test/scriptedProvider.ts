@@ -0,0 +1,135 @@
+import { z } from "zod";
+import {
+  LLMProvider,
+  ProviderKind,
+  StructuredRequest,
+  StructuredResponse,
+  TokenUsage,
+  UsageMeter,
+  extractJson,
+  withUsage,
+} from "../llmProvider";
+import { parseNeighborLines } from "../mockProvider";
+
+// Test double for a model: a script maps each requested cell (its current
+// value and neighbors, as parsed back from the composed prompt) to an answer.
+// Every request is recorded so tests can inspect what the engine sent.
+
+export interface ScriptedCell {
+  x?: number; // batched requests only
+  y?: number;
+  current: string;
+  neighbors: Record<string, string>; // label → value, off-grid mark stripped
+  prompt: string; // the cell's prompt (its block for batched requests)
+}
+
+// A string is the resultValue; `raw` is model text passed through extractJson
+// as a text-completion provider would (single cells), `entry` replaces the
+// cell's item in a batched answer. Thrown errors reject the request.
+export type ScriptedAnswer = string | { raw: string } | { entry: unknown };
+export type Script = (cell: ScriptedCell) => ScriptedAnswer;
+
+export interface ScriptedCall {
+  name: string;
+  prompt: string;
+  cells: ScriptedCell[];
+}
+
+export const TOKENS_PER_REQUEST = { prompt: 100, completion: 10 };
+export const COST_PER_REQUEST = 0.001; // USD
+
+function currentOf(text: string, prefix: string): string {
+  const line = text.split("\n").find((l) => l.startsWith(prefix));
+  return line === undefined ? "" : line.slice(prefix.length).trim();
+}
+
+function parseCell(prompt: string): ScriptedCell {
+  return {
+    current: currentOf(prompt, "Current value of the cell:"),
+    neighbors: parseNeighborLines(prompt),
+    prompt,
+  };
+}
+
+// Blocks written by composeBatchPrompt ("### Cell (x,y)" + the cell's prompt)
+function parseBatch(prompt: string): ScriptedCell[] {
+  const cells: ScriptedCell[] = [];
+  for (const block of prompt.split(/^### Cell /m).slice(1)) {
+    const m = /^\((-?\d+),(-?\d+)\)/.exec(block);
+    if (!m) continue;
+    cells.push({ x: +m[1], y: +m[2], ...parseCell(block) });
+  }
+  return cells;
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly kind: ProviderKind = "mock";
+  readonly model = "scripted";
+  readonly calls: ScriptedCall[] = [];
+  script: Script;
+  private usage = new UsageMeter();
+
+  constructor(script: Script) {
+    this.script = script;
+  }
+
+  getLastUsage(): TokenUsage {
+    return this.usage.getLast();
+  }
+
+  getCumulativeUsage(): TokenUsage {
+    return this.usage.getCumulative();
+  }
+
+  async getStructuredWithZod<T extends z.ZodTypeAny>(
+    userText: string,
+    schema: T,
+    name: string
+  ): Promise<z.infer<T>> {
+    const res = await this.getStructured({ prompt: userText, schema, name });
+    return res.value;
+  }
+
+  async getStructured<T extends z.ZodTypeAny>(
+    request: StructuredRequest<T>
+  ): Promise<StructuredResponse<z.infer<T>>> {
+    const { prompt, schema, name, signal } = request;
+    signal?.throwIfAborted();
+    const batched = name === "cell_batch";
+    const cells = batched ? parseBatch(prompt) : [parseCell(prompt)];
+    this.calls.push({ name, prompt, cells });
+
+    const answers = cells.map((cell) => this.script(cell));
+    let raw: string;
+    if (!batched) {
+      const answer = answers[0];
+      if (typeof answer === "string")
+        raw = JSON.stringify({ resultValue: answer });
+      else if ("raw" in answer) raw = answer.raw;
+      else throw new Error("Entries are only scripted for batched requests");
+    } else {
+      const results = cells.map((cell, i) => {
+        const answer = answers[i];
+        if (typeof answer === "string")
+          return { x: cell.x, y: cell.y, resultValue: answer };
+        if ("entry" in answer) return answer.entry;
+        throw new Error("Raw answers are only scripted for single cells");
+      });
+      raw = JSON.stringify({ results });
+    }
+    await Promise.resolve(); // answer asynchronously, like a real provider
+    // Billed whether or not the answer parses
+    const usage = this.usage.record(
+      TOKENS_PER_REQUEST.prompt,
+      0,
+      TOKENS_PER_REQUEST.completion,
+      COST_PER_REQUEST
+    );
+    try {
+      const value = schema.parse(extractJson(raw)) as z.infer<T>;
+      return { value, raw, model: this.model, usage };
+    } catch (e) {
+      throw withUsage(e, usage);
+    }
+  }
+}
@@ -0,0 +1,335 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Simulation } from "../simulation";
+import { UsageTracker } from "../usage";
+import { MAX_ATTEMPTS } from "../constants";
+import { COST_PER_REQUEST, Script, ScriptedProvider } from "./scriptedProvider";
+
+// The engine's simulation core against a scripted model. Timers are faked so
+// the rate limiter's spacing and retry backoff run instantly.
+
+function setup(values: string[][], script: Script) {
+  const rows = values.length;
+  const cols = values[0].length;
+  const sim = new Simulation(cols, rows, new UsageTracker(false));
+  const provider = new ScriptedProvider(script);
+  sim.setProvider(provider);
+  sim.getCache().enabled = false; // every request reaches the script
+  sim.seed((x, y) => values[y][x], "Seed");
+  return { sim, provider };
+}
+
+// Coordinates as cell values: "x,y"
+function coordGrid(cols: number, rows: number): string[][] {
+  return Array.from({ length: rows }, (_, y) =>
+    Array.from({ length: cols }, (_, x) => `${x},${y}`)
+  );
+}
+
+async function settle<T>(work: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return work;
+}
+
+const texts = (sim: Simulation) =>
+  sim.grid.map((row) => row.map((c) => c.text));
+
+// Each cell takes its left neighbor's value: the row shifts one step right
+const shiftRight: Script = ({ neighbors }) => neighbors.left;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // Failures and retries are logged by design
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("neighbor selection", () => {
+  it("wraps around every edge on a torus", async () => {
+    const seen = new Map<string, Record<string, string>>();
+    const { sim } = setup(coordGrid(3, 3), ({ current, neighbors }) => {
+      seen.set(current, neighbors);
+      return current;
+    });
+    sim.setNeighborhood({ kind: "moore", radius: 1, mask: [] });
+    expect(await settle(sim.nextGeneration("keep"))).toBe(true);
+
+    expect(seen.size).toBe(9);
+    expect(seen.get("0,0")).toEqual({
+      "top-left": "2,2",
+      top: "0,2",
+      "top-right": "1,2",
+      left: "2,0",
+      right: "1,0",
+      "bottom-left": "2,1",
+      bottom: "0,1",
+      "bottom-right": "1,1",
+    });
+    expect(seen.get("2,1")).toEqual({
+      "top-left": "1,0",
+      top: "2,0",
+      "top-right": "0,0",
+      left: "1,1",
+      right: "0,1",
+      "bottom-left": "1,2",
+      bottom: "2,2",
+      "bottom-right": "0,2",
+    });
+  });
+
+  it("wraps radius-2 offsets and tiny grids onto themselves", async () => {
+    const seen = new Map<string, Record<string, string>>();
+    const { sim } = setup([["a", "b"]], ({ current, neighbors }) => {
+      seen.set(current, neighbors);
+      return current;
+    });
+    sim.setNeighborhood({ kind: "vonNeumann", radius: 2, mask: [] });
+    await settle(sim.nextGeneration(""));
+    expect(seen.get("a")).toMatchObject({
+      top2: "a",
+      top: "a",
+      left2: "a",
+      left: "b",
+      right: "b",
+      right2: "a",
+      "top-left": "b",
+      "bottom-right": "b",
+    });
+  });
+
+  it("reads the edge value off-grid on a fixed boundary", async () => {
+    const seen = new Map<string, Record<string, string>>();
+    const { sim } = setup(coordGrid(2, 2), ({ current, neighbors }) => {
+      seen.set(current, neighbors);
+      return current;
+    });
+    sim.setBoundary({ mode: "fixed", edgeValue: "WALL" });
+    await settle(sim.nextGeneration(""));
+    expect(seen.get("0,0")).toEqual({
+      top: "WALL",
+      left: "WALL",
+      right: "1,0",
+      bottom: "0,1",
+    });
+  });
+});
+
+describe("generations", () => {
+  it("evaluates every cell against the pre-generation grid", async () => {
+    const { sim, provider } = setup([["a", "b", "c", "d"]], shiftRight);
+    expect(await settle(sim.nextGeneration("shift"))).toBe(true);
+    expect(texts(sim)).toEqual([["d", "a", "b", "c"]]);
+    expect(sim.generation).toBe(1);
+    // Later requests never saw values written earlier in the generation
+    for (const call of provider.calls)
+      expect(call.cells[0].neighbors.left).toBe(
+        { a: "d", b: "a", c: "b", d: "c" }[call.cells[0].current]
+      );
+
+    await settle(sim.nextGeneration("shift"));
+    expect(texts(sim)).toEqual([["c", "d", "a", "b"]]);
+  });
+
+  it("keeps snapshot semantics with batched requests", async () => {
+    const { sim, provider } = setup([["a", "b", "c", "d"]], shiftRight);
+    sim.setBatchSize(2);
+    await settle(sim.nextGeneration("shift"));
+    expect(texts(sim)).toEqual([["d", "a", "b", "c"]]);
+    expect(provider.calls.map((c) => c.name)).toEqual([
+      "cell_batch",
+      "cell_batch",
+    ]);
+    expect(sim.getBatchStats()).toMatchObject({ requests: 2, cells: 4 });
+  });
+
+  it("records usage per generation", async () => {
+    const { sim } = setup(coordGrid(2, 2), ({ current }) => current);
+    await settle(sim.nextGeneration(""));
+    const [gen] = sim.getUsage().getGenerations();
+    expect(gen.generation).toBe(1);
+    expect(gen.requests).toBe(4);
+    expect(gen.cost).toBeCloseTo(4 * COST_PER_REQUEST);
+  });
+
+  it("refuses to start while a request is in flight or without a model", async () => {
+    const { sim, provider } = setup([["a", "b"]], ({ current }) => current);
+    const single = sim.updateSingleCell(0, 0, "");
+    expect(await settle(sim.nextGeneration(""))).toBe(false);
+    await settle(single);
+    expect(provider.calls).toHaveLength(1);
+    expect(sim.generation).toBe(0);
+
+    const idle = new Simulation(2, 1, new UsageTracker(false));
+    expect(await settle(idle.nextGeneration(""))).toBe(false);
+    expect(idle.isBusy()).toBe(false);
+  });
+
+  it("stops when cancelled, keeping untouched cells", async () => {
+    const { sim } = setup(
+      [["a", "b", "c", "d"]],
+      ({ current }) => current + "!"
+    );
+    const run = sim.nextGeneration("");
+    await vi.advanceTimersByTimeAsync(0); // only the first start is due
+    sim.cancel();
+    expect(await settle(run)).toBe(false);
+    expect(sim.generation).toBe(0);
+    expect(texts(sim)[0].filter((t) => t.endsWith("!"))).toHaveLength(1);
+    expect(sim.isBusy()).toBe(false);
+  });
+});
+
+describe("error handling", () => {
+  it("keeps a failed cell's text and marks it with the error", async () => {
+    const { sim, provider } = setup([["a", "b", "c", "d"]], (cell) => {
+      if (cell.current === "b") throw new Error("model refused");
+      return shiftRight(cell);
+    });
+    expect(await settle(sim.nextGeneration("shift"))).toBe(true);
+    expect(texts(sim)).toEqual([["d", "b", "b", "c"]]);
+    expect(sim.grid[0][1]).toMatchObject({
+      status: "error",
+      error: "model refused",
+    });
+    expect(sim.failedCount()).toBe(1);
+    // Not a transient failure: no retries
+    expect(
+      provider.calls.filter((c) => c.cells[0].current === "b")
+    ).toHaveLength(1);
+  });
+
+  it("retries failed cells against the generation's input", async () => {
+    let broken = true;
+    const { sim } = setup([["a", "b", "c", "d"]], (cell) => {
+      if (broken && cell.current === "b") throw new Error("model refused");
+      return shiftRight(cell);
+    });
+    await settle(sim.nextGeneration("shift"));
+    broken = false;
+    expect(await settle(sim.retryFailed("shift"))).toBe(true);
+    expect(texts(sim)).toEqual([["d", "a", "b", "c"]]);
+    expect(sim.grid[0][1].status).toBe("ok");
+    expect(sim.grid[0][1].error).toBeUndefined();
+    expect(sim.failedCount()).toBe(0);
+  });
+
+  it("clears a failure when the cell is edited, painted or seeded", async () => {
+    let broken = true;
+    const { sim, provider } = setup([["a", "b", "c"]], (cell) => {
+      if (broken) throw new Error("model refused");
+      return shiftRight(cell);
+    });
+    await settle(sim.nextGeneration("shift"));
+    expect(sim.failedCount()).toBe(3);
+
+    sim.editCell(0, 0, "typed");
+    sim.paintCell(1, 0, "painted");
+    sim.commitPaint();
+    expect(sim.grid[0][0]).toEqual({ text: "typed" });
+    expect(sim.grid[0][1]).toEqual({ text: "painted" });
+    expect(sim.getCellError(2, 0)).toBe("model refused");
+
+    // Only the cell still failing is retried (against the edited grid); the
+    // user's values stay
+    broken = false;
+    const calls = provider.calls.length;
+    await settle(sim.retryFailed("shift"));
+    expect(provider.calls.length - calls).toBe(1);
+    expect(texts(sim)).toEqual([["typed", "painted", "painted"]]);
+
+    await settle(sim.nextGeneration("shift"));
+    broken = true;
+    await settle(sim.nextGeneration("shift"));
+    sim.seed(() => "x", "Fill");
+    expect(sim.failedCount()).toBe(0);
+  });
+
+  it("retries unparseable answers, then gives up", async () => {
+    const { sim, provider } = setup([["a", "b"]], (cell) =>
+      cell.current === "a" ? { raw: "Sorry, I can't help." } : "ok"
+    );
+    await settle(sim.nextGeneration(""));
+    expect(
+      provider.calls.filter((c) => c.cells[0].current === "a")
+    ).toHaveLength(MAX_ATTEMPTS);
+    expect(sim.grid[0][0]).toMatchObject({
+      text: "a",
+      status: "error",
+      error: "No JSON object found in model response",
+    });
+    const [trace] = sim.getProvenance(0, 0);
+    expect(trace.raw).toBe("Sorry, I can't help.");
+    expect(trace.attempts).toBe(MAX_ATTEMPTS);
+    expect(sim.grid[0][1]).toMatchObject({ text: "ok", status: "ok" });
+  });
+
+  it("recovers when a retry succeeds", async () => {
+    let attempts = 0;
+    const { sim } = setup([["a"]], () =>
+      ++attempts === 1 ? { raw: '{"resultValue": ' } : "fixed"
+    );
+    await settle(sim.nextGeneration(""));
+    expect(attempts).toBe(2);
+    expect(sim.grid[0][0]).toMatchObject({ text: "fixed", status: "ok" });
+  });
+
+  it("falls back to single requests for cells a batch left out", async () => {
+    const { sim, provider } = setup([["a", "b", "c", "d"]], (cell) =>
+      cell.x === 1 ? { entry: { x: 1, y: 0 } } : shiftRight(cell)
+    );
+    sim.setBatchSize(4);
+    await settle(sim.nextGeneration("shift"));
+    expect(texts(sim)).toEqual([["d", "a", "b", "c"]]);
+    expect(provider.calls.map((c) => c.name)).toEqual([
+      "cell_batch",
+      "cell_result",
+    ]);
+    expect(provider.calls[1].cells[0].current).toBe("b");
+  });
+
+  it("marks a failed single-cell update and clears it on success", async () => {
+    let broken = true;
+    const { sim } = setup([["a", "b"]], (cell) => {
+      if (broken) throw new Error("offline");
+      return cell.neighbors.right;
+    });
+    await settle(sim.updateSingleCell(0, 0, ""));
+    expect(sim.getCellError(0, 0)).toBe("offline");
+    expect(sim.getCellText(0, 0)).toBe("a");
+
+    broken = false;
+    await settle(sim.updateSingleCell(0, 0, ""));
+    expect(sim.getCellError(0, 0)).toBeNull();
+    expect(sim.getCellText(0, 0)).toBe("b");
+  });
+
+  it("refuses to run past the spend limit", async () => {
+    const { sim, provider } = setup(coordGrid(2, 2), ({ current }) => current);
+    sim.getUsage().setLimit(COST_PER_REQUEST);
+    expect(await settle(sim.nextGeneration(""))).toBe(false);
+    expect(sim.generation).toBe(0);
+    const requests = provider.calls.length;
+    expect(requests).toBeLessThan(4);
+    expect(await settle(sim.nextGeneration(""))).toBe(false);
+    expect(provider.calls).toHaveLength(requests);
+  });
+
+  it("bills failed attempts toward usage and the spend limit", async () => {
+    const { sim } = setup([["a", "b"]], (cell) =>
+      cell.current === "a" ? { raw: "not json" } : "ok"
+    );
+    await settle(sim.nextGeneration(""));
+    const totals = sim.getUsage().getTotals();
+    expect(totals.requests).toBe(MAX_ATTEMPTS + 1);
+    expect(totals.cost).toBeCloseTo((MAX_ATTEMPTS + 1) * COST_PER_REQUEST);
+    expect(totals.cells).toBe(1);
+
+    const limited = setup([["a"]], () => ({ raw: "not json" })).sim;
+    limited.getUsage().setLimit(2 * COST_PER_REQUEST);
+    expect(await settle(limited.nextGeneration(""))).toBe(false);
+    expect(limited.getUsage().getTotals().requests).toBe(2);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import p5 from "p5";
+import { layoutCellText, layoutParagraphs } from "../textLayout";
+
+// Monospace stand-in for p5's text metrics: every character is 0.5em wide
+function stubSketch() {
+  let size = 12;
+  const sketch = {
+    textSize: vi.fn((s: number) => {
+      size = s;
+    }),
+    textWidth: vi.fn((s: string) => s.length * size * 0.5),
+  };
+  const width = (s: string) => s.length * size * 0.5;
+  return { p: sketch as unknown as p5, sketch, width };
+}
+
+// Layouts are memoized on text & size, so every test uses its own texts.
+describe("layoutCellText", () => {
+  it("lays out blank text as one empty line without measuring", () => {
+    const { p, sketch } = stubSketch();
+    const layout = layoutCellText(p, "   ", 100);
+    expect(layout.lines).toEqual([""]);
+    expect(layout.totalHeight).toBe(layout.lineHeight);
+    expect(sketch.textWidth).not.toHaveBeenCalled();
+  });
+
+  it("keeps a short word on one line at the largest size that fits", () => {
+    const { p } = stubSketch();
+    const layout = layoutCellText(p, "cat", 100);
+    expect(layout.lines).toEqual(["cat"]);
+    expect(layout.fontSize).toBe(50); // maxFactor 0.5, no length penalty
+    expect(layout.lineHeight).toBeCloseTo(52.5);
+  });
+
+  it("wraps sentences within the padded cell", () => {
+    const { p, width } = stubSketch();
+    // Long texts drop to the smallest size (8px → 45 characters per line)
+    const text =
+      "the quick brown fox jumps over the lazy dog and then the dog chases the fox back home";
+    const layout = layoutCellText(p, text, 200);
+    expect(layout.fontSize).toBe(8);
+    expect(layout.lines.length).toBe(2);
+    expect(layout.lines.join(" ")).toBe(text);
+    for (const line of layout.lines)
+      expect(width(line)).toBeLessThanOrEqual(200 * 0.9);
+    expect(layout.totalHeight).toBeLessThanOrEqual(200 * 0.9);
+    expect(layout.totalHeight).toBeCloseTo(
+      layout.lines.length * layout.lineHeight
+    );
+  });
+
+  it("shrinks a short single word instead of splitting it", () => {
+    const { p } = stubSketch();
+    const layout = layoutCellText(p, "abcdefghijkl", 20);
+    expect(layout.lines).toEqual(["abcdefghijkl"]);
+  });
+
+  it("hard-splits words wider than the cell at the smallest size", () => {
+    const { p, width } = stubSketch();
+    const word = "x".repeat(90);
+    const layout = layoutCellText(p, word, 100);
+    expect(layout.fontSize).toBe(4); // minFactor 0.04
+    expect(layout.lines.length).toBeGreaterThan(1);
+    expect(layout.lines.join("")).toBe(word);
+    for (const line of layout.lines)
+      expect(width(line)).toBeLessThanOrEqual(100 * 0.9);
+  });
+
+  it("honours custom size factors and padding", () => {
+    const { p } = stubSketch();
+    const layout = layoutCellText(p, "dog", 100, {
+      maxFactor: 0.2,
+      widthPad: 0.5,
+    });
+    expect(layout.fontSize).toBe(20);
+    expect(layout.lines).toEqual(["dog"]);
+  });
+
+  it("memoizes layouts per text and cell size", () => {
+    const { p, sketch } = stubSketch();
+    const first = layoutCellText(p, "memo text here", 120);
+    const calls = sketch.textWidth.mock.calls.length;
+    expect(layoutCellText(p, "memo text here", 120)).toBe(first);
+    expect(sketch.textWidth.mock.calls.length).toBe(calls);
+    layoutCellText(p, "memo text here", 121);
+    expect(sketch.textWidth.mock.calls.length).toBeGreaterThan(calls);
+  });
+});
+
+describe("layoutParagraphs", () => {
+  it("starts every paragraph on a new line with one shared size", () => {
+    const { p, width } = stubSketch();
+    const layout = layoutParagraphs(p, ["# Title", "- one", "- two"], 100);
+    expect(layout.lines).toEqual(["# Title", "- one", "- two"]);
+    for (const line of layout.lines)
+      expect(width(line)).toBeLessThanOrEqual(100 * 0.9);
+    expect(layout.totalHeight).toBeLessThanOrEqual(100 * 0.9);
+  });
+
+  it("wraps long paragraphs on their own", () => {
+    const { p } = stubSketch();
+    const long = "a paragraph long enough that it needs wrapping at any size";
+    const layout = layoutParagraphs(p, ["short", long], 100);
+    expect(layout.lines[0]).toBe("short");
+    expect(layout.lines.slice(1).join(" ")).toBe(long);
+  });
+});
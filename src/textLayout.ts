@@ -7,16 +7,102 @@ export interface LaidOutText {
   totalHeight: number;
 }
 
+interface LayoutOptions {
+  maxFactor?: number;
+  minFactor?: number;
+  widthPad?: number;
+  heightPad?: number;
+}
+
+// Memoized on text, cell size & options (the font-size search below calls
+// textWidth many times per cell). Assumes the font never changes.
+const LAYOUT_CACHE_LIMIT = 5000;
+const layoutCache = new Map<string, LaidOutText>();
+
 export function layoutCellText(
   p: p5,
   text: string,
   cellSize: number,
-  opts: {
-    maxFactor?: number;
-    minFactor?: number;
-    widthPad?: number;
-    heightPad?: number;
-  } = {}
+  opts: LayoutOptions = {}
+): LaidOutText {
+  const key = [
+    cellSize,
+    opts.maxFactor,
+    opts.minFactor,
+    opts.widthPad,
+    opts.heightPad,
+    text,
+  ].join("|");
+  return memoLayout(key, () => computeLayout(p, text, cellSize, opts));
+}
+
+// Several paragraphs (e.g. markdown lines) sharing one font size; each wraps
+// on its own. Lines keep their inline markup, so widths are approximate.
+export function layoutParagraphs(
+  p: p5,
+  paragraphs: string[],
+  cellSize: number,
+  opts: LayoutOptions = {}
+): LaidOutText {
+  const key = [
+    "paragraphs",
+    cellSize,
+    opts.maxFactor,
+    opts.minFactor,
+    opts.widthPad,
+    opts.heightPad,
+    paragraphs.join("\n"),
+  ].join("|");
+  return memoLayout(key, () => {
+    const {
+      maxFactor = 0.3,
+      minFactor = 0.04,
+      widthPad = 0.9,
+      heightPad = 0.9,
+    } = opts;
+    const minFont = cellSize * minFactor;
+    const maxFont = Math.max(minFont, cellSize * maxFactor);
+    const targetWidth = cellSize * widthPad;
+    const targetHeight = cellSize * heightPad;
+    const step = Math.max(1, Math.floor(maxFont / 20));
+    for (let fs = Math.floor(maxFont); fs >= minFont; fs -= step) {
+      p.textSize(fs);
+      const lineHeight = fs * 1.05;
+      const lines = paragraphs.flatMap((para) => wrap(para, targetWidth, p));
+      const totalHeight = lines.length * lineHeight;
+      if (totalHeight <= targetHeight)
+        return { fontSize: fs, lines, lineHeight, totalHeight };
+    }
+    const fs = Math.ceil(minFont);
+    p.textSize(fs);
+    const lineHeight = fs * 1.05;
+    const lines = paragraphs.flatMap((para) =>
+      wrap(para, targetWidth, p, true)
+    );
+    return { fontSize: fs, lines, lineHeight, totalHeight: lines.length * lineHeight };
+  });
+}
+
+function memoLayout(key: string, compute: () => LaidOutText): LaidOutText {
+  const hit = layoutCache.get(key);
+  if (hit) {
+    // Re-insert so the oldest unused layouts are evicted first
+    layoutCache.delete(key);
+    layoutCache.set(key, hit);
+    return hit;
+  }
+  const layout = compute();
+  if (layoutCache.size >= LAYOUT_CACHE_LIMIT)
+    layoutCache.delete(layoutCache.keys().next().value as string);
+  layoutCache.set(key, layout);
+  return layout;
+}
+
+function computeLayout(
+  p: p5,
+  text: string,
+  cellSize: number,
+  opts: LayoutOptions
 ): LaidOutText {
   const {
     maxFactor = 0.5, // slightly lower base
@@ -0,0 +1,187 @@
+import { z } from "zod";
+import { TokenUsage } from "./llmProvider";
+
+// Usage accounting across reloads: lifetime totals, a per-generation breakdown
+// and a hard spend limit. Fed by the engine with every billed request, failed
+// attempts included.
+
+const USAGE_KEY = "usage_totals";
+const LIMIT_KEY = "usage_spend_limit";
+export const USAGE_HISTORY_DEPTH = 50; // generations kept for the chart
+
+export interface UsageTotals {
+  prompt: number; // non-cached input tokens
+  cached: number;
+  completion: number;
+  cost: number; // USD
+  requests: number; // model calls (a batch counts once)
+  cells: number; // cells answered, including response-cache hits
+  cacheHits: number; // cells answered by the response cache
+  latencyMs: number; // summed over requests
+  unpriced: number; // requests on models without pricing (cost understated)
+}
+
+export interface GenerationUsage extends UsageTotals {
+  generation: number;
+  timestamp: number;
+}
+
+const TotalsSchema = z.object({
+  prompt: z.number(),
+  cached: z.number(),
+  completion: z.number(),
+  cost: z.number(),
+  requests: z.number(),
+  cells: z.number(),
+  cacheHits: z.number(),
+  latencyMs: z.number(),
+  unpriced: z.number().default(0),
+});
+const StoredUsageSchema = z.object({
+  totals: TotalsSchema,
+  generations: z.array(
+    TotalsSchema.extend({ generation: z.number(), timestamp: z.number() })
+  ),
+});
+
+function emptyTotals(): UsageTotals {
+  return {
+    prompt: 0,
+    cached: 0,
+    completion: 0,
+    cost: 0,
+    requests: 0,
+    cells: 0,
+    cacheHits: 0,
+    latencyMs: 0,
+    unpriced: 0,
+  };
+}
+
+function accumulate(
+  into: UsageTotals,
+  usage: TokenUsage,
+  latencyMs: number,
+  cells: number,
+  cached: boolean
+) {
+  into.cells += cells;
+  if (cached) {
+    into.cacheHits += cells;
+    return;
+  }
+  into.prompt += usage.prompt;
+  into.cached += usage.cached;
+  into.completion += usage.completion;
+  into.cost += usage.cost;
+  into.requests++;
+  into.latencyMs += latencyMs;
+  if (usage.unpriced) into.unpriced++;
+}
+
+export class UsageTracker {
+  private totals = emptyTotals();
+  private generations: GenerationUsage[] = [];
+  private current: UsageTotals | null = null; // generation in progress
+  private limit = 0; // USD, 0 = no limit
+  private persist: boolean;
+
+  // `persist` = false keeps everything in memory (headless runs)
+  constructor(persist = true) {
+    this.persist = persist;
+    if (persist) this.load();
+  }
+
+  // One request covering `cells` cells (batches cover several, failures none)
+  record(usage: TokenUsage, latencyMs: number, cells = 1, cached = false) {
+    accumulate(this.totals, usage, latencyMs, cells, cached);
+    if (this.current) accumulate(this.current, usage, latencyMs, cells, cached);
+    this.save();
+  }
+
+  beginGeneration() {
+    this.current = emptyTotals();
+  }
+
+  endGeneration(generation: number) {
+    if (!this.current) return;
+    if (this.current.cells > 0) {
+      this.generations.push({
+        ...this.current,
+        generation,
+        timestamp: Date.now(),
+      });
+      if (this.generations.length > USAGE_HISTORY_DEPTH)
+        this.generations.splice(
+          0,
+          this.generations.length - USAGE_HISTORY_DEPTH
+        );
+    }
+    this.current = null;
+    this.save();
+  }
+
+  getTotals(): UsageTotals {
+    return { ...this.totals };
+  }
+
+  getGenerations(): GenerationUsage[] {
+    return this.generations.map((g) => ({ ...g }));
+  }
+
+  // Average cost per cell over the last few generations (lifetime as fallback)
+  projectCost(cells: number): number | null {
+    const recent = this.generations.slice(-5);
+    const source = recent.length ? recent : [this.totals];
+    const cost = source.reduce((s, g) => s + g.cost, 0);
+    const answered = source.reduce((s, g) => s + g.cells, 0);
+    return answered ? (cost / answered) * cells : null;
+  }
+
+  // --- Spend limit ---
+  getLimit() {
+    return this.limit;
+  }
+  setLimit(usd: number) {
+    this.limit = Math.max(0, isFinite(usd) ? usd : 0);
+    if (this.persist) localStorage.setItem(LIMIT_KEY, String(this.limit));
+  }
+  limitReached() {
+    return this.limit > 0 && this.totals.cost >= this.limit;
+  }
+
+  reset() {
+    this.totals = emptyTotals();
+    this.generations = [];
+    if (this.current) this.current = emptyTotals();
+    this.save();
+  }
+
+  // --- Persistence (best effort) ---
+  private load() {
+    try {
+      const raw = localStorage.getItem(USAGE_KEY);
+      const parsed = StoredUsageSchema.safeParse(raw ? JSON.parse(raw) : null);
+      if (parsed.success) {
+        this.totals = parsed.data.totals;
+        this.generations = parsed.data.generations;
+      }
+      const limit = parseFloat(localStorage.getItem(LIMIT_KEY) || "");
+      if (!isNaN(limit) && limit > 0) this.limit = limit;
+    } catch {
+      // storage unavailable: start from zero
+    }
+  }
+
+  private save() {
+    if (!this.persist) return;
+    try {
+      localStorage.setItem(
+        USAGE_KEY,
+        JSON.stringify({ totals: this.totals, generations: this.generations })
+      );
+    } catch (e) {
+      console.warn("Usage totals not saved", e);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { UsageTracker, UsageTotals, GenerationUsage } from "./usage";
+
+// Usage dashboard rendering: totals, last generation, projection and a bar
+// chart of cost per generation (inline SVG, no chart library).
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+function usd(n: number) {
+  return `$${n.toFixed(n !== 0 && n < 0.01 ? 6 : 4)}`;
+}
+function pct(part: number, whole: number) {
+  return whole ? `${Math.round((part / whole) * 100)}%` : "–";
+}
+function tokens(t: UsageTotals) {
+  return t.prompt + t.cached + t.completion;
+}
+
+function statRows(container: HTMLElement, rows: [string, string][]) {
+  container.innerHTML = "";
+  for (const [label, value] of rows) {
+    const dt = document.createElement("dt");
+    dt.textContent = label;
+    const dd = document.createElement("dd");
+    dd.textContent = value;
+    container.append(dt, dd);
+  }
+}
+
+function renderChart(svg: SVGSVGElement, generations: GenerationUsage[]) {
+  const width = 260;
+  const height = 70;
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  svg.innerHTML = "";
+  if (!generations.length) return;
+  const max = Math.max(...generations.map((g) => g.cost)) || 1;
+  const slot = width / generations.length;
+  generations.forEach((g, i) => {
+    const h = Math.max(1, (g.cost / max) * (height - 4));
+    const rect = document.createElementNS(SVG_NS, "rect");
+    rect.setAttribute("x", String(i * slot + slot * 0.15));
+    rect.setAttribute("y", String(height - h));
+    rect.setAttribute("width", String(Math.max(1, slot * 0.7)));
+    rect.setAttribute("height", String(h));
+    const title = document.createElementNS(SVG_NS, "title");
+    title.textContent = `Generation ${g.generation}: ${usd(g.cost)} · ${
+      g.cells
+    } cells · ${tokens(g)} tokens`;
+    rect.appendChild(title);
+    svg.appendChild(rect);
+  });
+}
+
+export interface UsagePanelElements {
+  stats: HTMLElement; // <dl>
+  chart: SVGSVGElement;
+  projection: HTMLElement;
+  limitStatus: HTMLElement;
+}
+
+export function renderUsagePanel(
+  els: UsagePanelElements,
+  tracker: UsageTracker,
+  gridCells: number
+) {
+  const t = tracker.getTotals();
+  const generations = tracker.getGenerations();
+  const last = generations[generations.length - 1];
+  const answered = t.cells - t.cacheHits;
+  const rows: [string, string][] = [
+    ["Total cost", usd(t.cost)],
+    ["Tokens", `${t.prompt} in · ${t.cached} cached · ${t.completion} out`],
+    ["Requests", `${t.requests} for ${t.cells} cells`],
+    ["Per cell", answered ? `${Math.round(tokens(t) / answered)} tokens` : "–"],
+    ["Prompt cache", pct(t.cached, t.prompt + t.cached)],
+    ["Response cache", pct(t.cacheHits, t.cells)],
+    [
+      "Avg latency",
+      t.requests ? `${Math.round(t.latencyMs / t.requests)} ms` : "–",
+    ],
+  ];
+  if (t.unpriced)
+    rows.push([
+      "Unpriced",
+      `${t.unpriced} request${
+        t.unpriced === 1 ? "" : "s"
+      } without pricing – cost is understated`,
+    ]);
+  if (last)
+    rows.push([
+      `Gen ${last.generation}`,
+      `${usd(last.cost)} · ${last.cells} cells · ${
+        last.cells ? Math.round(tokens(last) / last.cells) : 0
+      } tok/cell`,
+    ]);
+  statRows(els.stats, rows);
+  renderChart(els.chart, generations);
+
+  const projected = tracker.projectCost(gridCells);
+  els.projection.textContent =
+    projected === null
+      ? `Next generation (${gridCells} cells): no data yet`
+      : `Next generation (${gridCells} cells): ~${usd(projected)}`;
+
+  const limit = tracker.getLimit();
+  els.limitStatus.textContent = !limit
+    ? ""
+    : tracker.limitReached()
+    ? `Spend limit ${usd(limit)} reached – stepping disabled`
+    : `${usd(Math.max(0, limit - t.cost))} left of ${usd(limit)}`;
+  els.limitStatus.classList.toggle("reached", tracker.limitReached());
+}
@@ -0,0 +1,130 @@
+import { CELL_SIZE } from "./constants";
+
+// Zoom & pan state of the canvas. World coordinates are grid pixels (a cell is
+// CELL_SIZE wide); screen coordinates are CSS pixels on the canvas.
+
+export interface ScreenRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_ZOOM_CELL_PX = 400; // largest on-screen cell when zoomed in
+
+export class Viewport {
+  width = 1; // canvas size, CSS px
+  height = 1;
+  scale = 1; // screen px per world px
+  x = 0; // world position of the canvas top-left corner
+  y = 0;
+  private cols = 1;
+  private rows = 1;
+
+  setSize(width: number, height: number) {
+    const resized = width !== this.width || height !== this.height;
+    this.width = Math.max(1, width);
+    this.height = Math.max(1, height);
+    if (resized) this.fit();
+  }
+
+  setGrid(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+    this.fit();
+  }
+
+  // Scale showing the whole grid (also the zoom-out limit)
+  fitScale() {
+    return Math.min(
+      this.width / (this.cols * CELL_SIZE),
+      this.height / (this.rows * CELL_SIZE)
+    );
+  }
+
+  fit() {
+    this.scale = this.fitScale();
+    this.clamp();
+  }
+
+  // Zoom by `factor` keeping the world point under (sx, sy) in place
+  zoomAt(factor: number, sx = this.width / 2, sy = this.height / 2) {
+    const wx = this.x + sx / this.scale;
+    const wy = this.y + sy / this.scale;
+    const max = Math.max(this.fitScale(), MAX_ZOOM_CELL_PX / CELL_SIZE);
+    this.scale = Math.min(max, Math.max(this.fitScale(), this.scale * factor));
+    this.x = wx - sx / this.scale;
+    this.y = wy - sy / this.scale;
+    this.clamp();
+  }
+
+  panBy(dx: number, dy: number) {
+    this.x -= dx / this.scale;
+    this.y -= dy / this.scale;
+    this.clamp();
+  }
+
+  centerOn(wx: number, wy: number) {
+    this.x = wx - this.width / this.scale / 2;
+    this.y = wy - this.height / this.scale / 2;
+    this.clamp();
+  }
+
+  // Zoom relative to the fitted view (1 = whole grid visible)
+  zoomLevel() {
+    return this.scale / this.fitScale();
+  }
+
+  showsAll() {
+    return this.zoomLevel() <= 1.0001;
+  }
+
+  cellAt(sx: number, sy: number) {
+    return {
+      cx: Math.floor((this.x + sx / this.scale) / CELL_SIZE),
+      cy: Math.floor((this.y + sy / this.scale) / CELL_SIZE),
+    };
+  }
+
+  cellRect(cx: number, cy: number): ScreenRect {
+    const size = CELL_SIZE * this.scale;
+    return {
+      left: (cx * CELL_SIZE - this.x) * this.scale,
+      top: (cy * CELL_SIZE - this.y) * this.scale,
+      width: size,
+      height: size,
+    };
+  }
+
+  // Inclusive cell range intersecting the canvas
+  visibleCells() {
+    const first = this.cellAt(0, 0);
+    const last = this.cellAt(this.width, this.height);
+    return {
+      x0: Math.max(0, first.cx),
+      y0: Math.max(0, first.cy),
+      x1: Math.min(this.cols - 1, last.cx),
+      y1: Math.min(this.rows - 1, last.cy),
+    };
+  }
+
+  // World rectangle on screen (for the minimap frame)
+  visibleWorld() {
+    return {
+      x: this.x,
+      y: this.y,
+      width: this.width / this.scale,
+      height: this.height / this.scale,
+    };
+  }
+
+  // Keep the grid in view: centered along an axis it doesn't fill, else no gaps
+  private clamp() {
+    const clampAxis = (pos: number, world: number, view: number) =>
+      world <= view
+        ? (world - view) / 2
+        : Math.min(world - view, Math.max(0, pos));
+    this.x = clampAxis(this.x, this.cols * CELL_SIZE, this.width / this.scale);
+    this.y = clampAxis(this.y, this.rows * CELL_SIZE, this.height / this.scale);
+  }
+}
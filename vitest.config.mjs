@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests (src/**/*.test.ts) run in Node; prompt templates load as raw
+// strings, mirroring webpack's asset/source rule.
+export default defineConfig({
+  plugins: [
+    {
+      name: "markdown-source",
+      transform(code, id) {
+        if (id.endsWith(".md"))
+          return { code: `export default ${JSON.stringify(code)};`, map: null };
+      },
+    },
+  ],
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+});
@@ -0,0 +1,35 @@
+const path = require("path");
+const webpack = require("webpack");
+
+// Headless CLI (`the-one-prompt run`): the simulation core bundled for Node,
+// with the prompt templates inlined as in the web build.
+module.exports = {
+  entry: "./src/cli.ts",
+  target: "node",
+  mode: process.env.NODE_ENV || "development",
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        use: "ts-loader",
+        exclude: /node_modules/,
+      },
+      {
+        test: /\.md$/,
+        type: "asset/source",
+      },
+    ],
+  },
+  resolve: {
+    extensions: [".ts", ".js"],
+  },
+  output: {
+    filename: "the-one-prompt.js",
+    path: path.resolve(__dirname, "cli"),
+    clean: true,
+  },
+  devtool: "source-map",
+  plugins: [
+    new webpack.BannerPlugin({ banner: "#!/usr/bin/env node", raw: true }),
+  ],
+};